@@ -18,6 +18,9 @@
  *
  *   # Generate .env file for ABAP
  *   mcp-auth --service-key ./abap-key.json --output ./abap.env --type abap
+ *
+ *   # Sign out: clear tokens from .env file and revoke refresh token
+ *   mcp-auth logout --env ./abap.env --type abap --revoke
  */
 
 import { spawnSync } from 'child_process';
@@ -89,6 +92,9 @@ function showHelp(): void {
   console.log('Usage:');
   console.log('  mcp-auth <auth-code|oidc|saml2-pure|saml2-bearer> [options]');
   console.log('  mcp-auth --service-key <path> --output <path> [options]');
+  console.log(
+    '  mcp-auth logout --env <path> [--type abap|xsuaa] [--revoke] [--revocation-url <url>]',
+  );
   console.log('');
   console.log('Required Options:');
   console.log('  --output <path>         Output file path');
@@ -153,6 +159,9 @@ function showHelp(): void {
     '  mcp-auth saml2-pure --idp-sso-url https://idp/sso --sp-entity-id my-sp --output ./saml.env --type abap',
   );
   console.log('');
+  console.log('  # Sign out (clear tokens in .env, revoke refresh token)');
+  console.log('  mcp-auth logout --env ./abap.env --type abap --revoke');
+  console.log('');
   console.log('  # SAML2 bearer (in progress, requires --dev)');
   console.log(
     '  mcp-auth saml2-bearer --dev --service-key ./service-key.json --assertion <base64> --output ./sso.env --type xsuaa',
@@ -489,6 +498,100 @@ function runMcpSso(args: string[]): void {
   process.exit(result.status ?? 1);
 }
 
+async function runLogout(args: string[]): Promise<void> {
+  let envFilePath: string | undefined;
+  let authType: 'abap' | 'xsuaa' = 'abap';
+  let revoke = false;
+  let revocationUrl: string | undefined;
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--env' && i + 1 < args.length) {
+      envFilePath = args[i + 1];
+      i++;
+    } else if (args[i] === '--type' && i + 1 < args.length) {
+      const type = args[i + 1];
+      if (type === 'abap' || type === 'xsuaa') {
+        authType = type;
+      } else {
+        console.error(`Invalid auth type: ${type}. Must be 'abap' or 'xsuaa'`);
+        process.exit(1);
+      }
+      i++;
+    } else if (args[i] === '--revoke') {
+      revoke = true;
+    } else if (args[i] === '--revocation-url' && i + 1 < args.length) {
+      revocationUrl = args[i + 1];
+      revoke = true;
+      i++;
+    } else {
+      console.error(`Unknown option: ${args[i]}`);
+      console.error('Run "mcp-auth --help" for usage information');
+      process.exit(1);
+    }
+  }
+
+  if (!envFilePath) {
+    console.error('Error: --env is required');
+    console.error('');
+    console.error(
+      'Usage: mcp-auth logout --env <path> [--type abap|xsuaa] [--revoke] [--revocation-url <url>]',
+    );
+    process.exit(1);
+  }
+
+  const resolvedEnvPath = path.resolve(envFilePath);
+  if (!fs.existsSync(resolvedEnvPath)) {
+    console.error(`❌ Env file not found: ${resolvedEnvPath}`);
+    process.exit(1);
+  }
+  const destination = path.basename(
+    resolvedEnvPath,
+    path.extname(resolvedEnvPath),
+  );
+  const sessionDir = path.dirname(resolvedEnvPath);
+  const sessionStore =
+    authType === 'xsuaa'
+      ? new XsuaaSessionStore(sessionDir, '<SERVICE_URL>')
+      : new AbapSessionStore(sessionDir);
+
+  const broker = new AuthBroker({
+    sessionStore,
+    // logout never requests tokens
+    tokenProviderFactory: () => {
+      throw new Error('Token provider is not used by logout');
+    },
+  });
+
+  console.log(`📁 Env file: ${resolvedEnvPath}`);
+  console.log(`🚪 Logging out of destination "${destination}"...`);
+  try {
+    const result = await broker.logout(destination, {
+      revoke,
+      revocationUrl,
+    });
+    if (revoke) {
+      if (result.revoked) {
+        console.log('✅ Refresh token revoked');
+      } else if (result.revocationError) {
+        console.warn(
+          `⚠️  Refresh token revocation failed: ${result.revocationError.message}`,
+        );
+      } else {
+        console.log('ℹ️  No refresh token to revoke');
+      }
+    }
+    console.log(
+      result.sessionCleared
+        ? `✅ Tokens cleared from ${resolvedEnvPath}`
+        : 'ℹ️  Session holds no tokens, nothing to clear',
+    );
+    process.exit(0);
+  } catch (error: any) {
+    console.error(`❌ Error: ${error.message}`);
+    process.exit(1);
+  }
+}
+
 async function main() {
   const rawArgs = process.argv.slice(2);
   const subcommand = rawArgs[0];
@@ -506,6 +609,11 @@ async function main() {
       case 'auth-code': {
         break;
       }
+      case 'logout': {
+        ensureNoProtocol();
+        await runLogout(remaining);
+        return;
+      }
       case 'oidc': {
         ensureNoProtocol();
         runMcpSso(['oidc', ...remaining]);
@@ -1094,7 +1094,7 @@ async function main() {
   );
 
   console.log(`🔐 Getting token for destination "${destination}"...`);
-  await broker.getToken(destination);
+  const issuedToken: string = await broker.getToken(destination);
   console.log(`✅ Token obtained successfully`);
 
   const connConfig = await sessionStore.getConnectionConfig(destination);
@@ -1105,9 +1105,8 @@ async function main() {
   }
 
   const isSaml = !!connConfig.sessionCookies && !connConfig.authorizationToken;
-  const token = isSaml
-    ? connConfig.sessionCookies
-    : connConfig.authorizationToken;
+  // Stored SAML cookies may carry attributes; the broker serves them as Cookie header
+  const token = isSaml ? issuedToken : connConfig.authorizationToken;
   if (!token) {
     throw new Error('Token provider did not return authorization token');
   }
@@ -2,20 +2,83 @@
  * Main AuthBroker class for managing JWT tokens based on destinations
  */
 
+import * as path from 'node:path';
 import {
   type ILogger,
   type ITokenRefresher,
   type ITokenResult,
   STORE_ERROR_CODES,
 } from '@mcp-abap-adt/interfaces';
-import type { ITokenProvider } from './providers';
+import {
+  AuthBrokerError,
+  type AuthBrokerErrorCode,
+  BrowserAuthError,
+  CircuitOpenError,
+  ConfigMissingError,
+  CsrfTokenError,
+  InsufficientScopeError,
+  InteractiveAuthRequiredError,
+  NetworkError,
+  RefreshLockTimeoutError,
+  ServiceKeyError,
+  StoreWriteError,
+  TokenProviderError,
+  TokenRequestAbortedError,
+  TokenRequestTimeoutError,
+  ValidationError,
+} from './errors';
+import type {
+  InteractiveAuthDecision,
+  InteractiveAuthPrompt,
+  ITokenProvider,
+  TokenProviderFactory,
+  TokenRequestOptions,
+} from './providers';
 import type {
   IAuthorizationConfig,
   IConnectionConfig,
+  IListableStore,
   IServiceKeyStore,
   ISessionStore,
+  ITransactionalSessionStore,
 } from './stores/interfaces';
+import { raceWithSignal, sleep } from './utils/abort';
+import {
+  CircuitBreaker,
+  type CircuitBreakerOptions,
+  type CircuitBreakerState,
+  DEFAULT_CIRCUIT_BREAKER,
+} from './utils/circuitBreaker';
+import { CookieJar, type StoredSessionCookies } from './utils/cookieJar';
+import {
+  type CsrfFetchResult,
+  type CsrfOptions,
+  DEFAULT_CSRF,
+  mergeCookieHeader,
+  requestCsrfToken,
+} from './utils/csrf';
+import {
+  acquireFileLock,
+  DEFAULT_REFRESH_LOCK,
+  type RefreshLockOptions,
+} from './utils/fileLock';
 import { formatExpirationDate, formatToken } from './utils/formatting';
+import { decodeJwtPayload, getJwtScopes, getMissingScopes } from './utils/jwt';
+import {
+  DEFAULT_RETRY_POLICY,
+  getErrorStatus,
+  getRetryDelay,
+  isRetryableError,
+  type RetryPolicy,
+} from './utils/retry';
+import { revokeRefreshToken } from './utils/revocation';
+import {
+  DEFAULT_SAML_KEEP_ALIVE,
+  requestSessionPing,
+  type SamlKeepAliveOptions,
+  type SessionPingResult,
+} from './utils/samlKeepAlive';
+import { resolveSecretReference, type SecretResolver } from './utils/secrets';
 
 /**
  * No-op logger implementation for default fallback when logger is not provided
@@ -76,6 +139,504 @@ function isInteractiveAuthFailure(error: unknown): boolean {
   );
 }
 
+/**
+ * Default safety margin before expiry when a cached token is no longer served
+ */
+const DEFAULT_TOKEN_CACHE_SKEW_SECONDS = 60;
+
+/**
+ * Token cache options for AuthBroker
+ */
+export interface TokenCacheOptions {
+  /**
+   * Safety margin in seconds (optional, default: 60).
+   * Cached token is served only while it has more than this much validity left.
+   */
+  expirySkewSeconds?: number;
+}
+
+/**
+ * Background refresh options for AuthBroker
+ */
+export interface BackgroundRefreshOptions {
+  /** Refresh this many seconds before token expiry (optional, default: 120) */
+  refreshBeforeExpirySeconds?: number;
+  /** Maximum random jitter in seconds subtracted from the refresh time (optional, default: 30) */
+  jitterSeconds?: number;
+  /**
+   * Only refresh destinations used by getToken() within this many seconds (optional, default: 1800).
+   * Idle destinations are left to expire and refreshed on next use.
+   */
+  idleTimeoutSeconds?: number;
+}
+
+const DEFAULT_BACKGROUND_REFRESH: Required<BackgroundRefreshOptions> = {
+  refreshBeforeExpirySeconds: 120,
+  jitterSeconds: 30,
+  idleTimeoutSeconds: 1800,
+};
+
+/**
+ * Stale-token fallback options for AuthBroker
+ */
+export interface StaleTokenFallbackOptions {
+  /**
+   * Serve the session token only while it has more than this many seconds of validity left
+   * (optional, default: 30)
+   */
+  minRemainingSeconds?: number;
+}
+
+const DEFAULT_STALE_TOKEN_FALLBACK: Required<StaleTokenFallbackOptions> = {
+  minRemainingSeconds: 30,
+};
+
+/**
+ * Whether provider failure means the identity provider is unreachable or unavailable
+ * (as opposed to rejecting the credentials)
+ */
+function isNetworkClassError(error: unknown): error is AuthBrokerError {
+  return (
+    error instanceof NetworkError ||
+    error instanceof CircuitOpenError ||
+    (error instanceof TokenProviderError && error.retryable)
+  );
+}
+
+/**
+ * Whether provider declares the token type it issues (e.g. SAML providers: `tokenType: 'saml'`)
+ */
+function hasTokenType(
+  provider: ITokenProvider | undefined,
+): provider is ITokenProvider & { tokenType: string } {
+  return (
+    typeof (provider as { tokenType?: unknown } | undefined)?.tokenType ===
+    'string'
+  );
+}
+
+/**
+ * Whether provider can drop tokens it keeps in memory (`clearTokens()`), see AuthBroker.logout()
+ */
+function hasClearTokens(
+  provider: ITokenProvider | undefined,
+): provider is ITokenProvider & { clearTokens(): void | Promise<void> } {
+  return (
+    typeof (provider as { clearTokens?: unknown } | undefined)?.clearTokens ===
+    'function'
+  );
+}
+
+/**
+ * Whether connection config selects basic auth: explicit `authType: 'basic'` with
+ * username and password. Credentials alone never switch a session to basic auth.
+ */
+function hasBasicCredentials(
+  connConfig: IConnectionConfig | null | undefined,
+): connConfig is IConnectionConfig & { username: string; password: string } {
+  return !!(
+    connConfig?.authType === 'basic' &&
+    connConfig.username &&
+    connConfig.password
+  );
+}
+
+/**
+ * CSRF token held in broker memory for a destination
+ */
+interface CsrfSession {
+  token: string;
+  /** Session cookies set by the fetch response */
+  cookies: Record<string, string>;
+  /** Authorization/Cookie header the token was fetched with */
+  credential: string | undefined;
+}
+
+/**
+ * CSRF fetch shared by concurrent callers with the same credentials
+ */
+interface PendingCsrfFetch {
+  promise: Promise<CsrfSession>;
+  /** Authorization/Cookie header the fetch runs with */
+  credential: string | undefined;
+}
+
+/**
+ * Token held in broker memory for a destination
+ */
+interface CachedToken {
+  token: string;
+  expiresAt: number;
+}
+
+/**
+ * Kind of token flow: regular getToken(), background refresh, or new login for a token
+ * that lacks required scopes
+ */
+type TokenFlowKind = 'regular' | 'background' | 'relogin';
+
+/**
+ * Token request shared by concurrent getToken() callers for a destination
+ */
+interface PendingTokenRequest {
+  promise: Promise<string>;
+  /** Aborts the underlying flow once every caller has gone */
+  controller: AbortController;
+  /** Callers still waiting for the result */
+  waiters: number;
+  /** When the flow started (ms since epoch), for event timing */
+  startedAt: number;
+  /** Background refresh is non-interactive and its failures are logged only */
+  kind: TokenFlowKind;
+}
+
+/**
+ * Per-call options for getToken()
+ */
+export interface GetTokenOptions {
+  /**
+   * Abort waiting for the token. The underlying provider call is cancelled (where the
+   * provider supports it) and its result is not persisted once no other caller waits for it.
+   */
+  signal?: AbortSignal;
+  /** Give up after this many milliseconds, same effect as an aborted signal */
+  timeoutMs?: number;
+  /**
+   * Scopes the JWT `scope` claim must grant. If any are missing, the broker re-authenticates
+   * once and then throws InsufficientScopeError. `$XSAPPNAME.<scope>` matches any XSUAA
+   * application prefix. Not checked for non-JWT (SAML, basic) tokens.
+   */
+  requiredScopes?: string[];
+}
+
+/**
+ * HTTP headers ready to be sent to the destination system
+ */
+export type AuthHeaders = Record<string, string>;
+
+/**
+ * Options for getAuthHeaders()
+ */
+export interface AuthHeadersOptions {
+  /**
+   * Add `x-csrf-token` and merge the ADT session cookies it is bound to into `Cookie`
+   * (optional, default: false). Needed for modifying ADT requests (POST, PUT, DELETE).
+   */
+  csrf?: boolean;
+}
+
+/**
+ * Options for logout()
+ */
+export interface LogoutOptions {
+  /** Revoke the refresh token at the identity provider before clearing the session (default: false) */
+  revoke?: boolean;
+  /**
+   * RFC 7009 revocation endpoint (optional). Default: UAA `{uaaUrl}/oauth/token/revoke/{token}`.
+   * Set for OIDC providers, e.g. `https://idp/realms/x/protocol/openid-connect/revoke`.
+   */
+  revocationUrl?: string;
+}
+
+/**
+ * Result of logout()
+ */
+export interface LogoutResult {
+  /** Whether the session store held credentials that were cleared */
+  sessionCleared: boolean;
+  /** Whether the refresh token was revoked at the identity provider */
+  revoked: boolean;
+  /** Revocation failure; the local session is cleared regardless */
+  revocationError?: Error;
+}
+
+/**
+ * Decoded view of the token stored for a destination. The token itself is not included.
+ */
+export interface TokenInfo {
+  destination: string;
+  /**
+   * Credential stored in the session: `jwt` (decodable bearer token), `opaque` (bearer
+   * token that is not a JWT), `saml` (session cookies), `basic` (username/password) or `none`
+   */
+  tokenType: 'jwt' | 'opaque' | 'saml' | 'basic' | 'none';
+  /** `iss` claim */
+  issuer?: string;
+  /** `sub` claim */
+  subject?: string;
+  /** `user_name` claim, or session username for basic/SAML sessions */
+  userName?: string;
+  email?: string;
+  /** `client_id` / `cid` / `azp` claim */
+  clientId?: string;
+  /** XSUAA identity zone (`zid`) */
+  zoneId?: string;
+  /** Subaccount subdomain (`ext_attr.zdn`) or OIDC tenant (`tid`) */
+  tenant?: string;
+  scopes?: string[];
+  audience?: string[];
+  /** Issued at, ms since epoch */
+  issuedAt?: number;
+  /** Expiry, ms since epoch: `exp` claim, or provider `expiresIn` when the broker cached the token */
+  expiresAt?: number;
+  /** Seconds until expiry (negative when expired) */
+  remainingSeconds?: number;
+  hasRefreshToken: boolean;
+  /** Cookie names of a SAML session (values are not exposed) */
+  cookieNames?: string[];
+}
+
+/**
+ * Destination status returned by listDestinations()
+ */
+export interface DestinationStatus {
+  destination: string;
+  /** Service key store has a service key for the destination */
+  hasServiceKey: boolean;
+  /** Session store has connection or authorization config for the destination */
+  hasSession: boolean;
+  /** Credential stored in the session (see TokenInfo.tokenType) */
+  authType: TokenInfo['tokenType'];
+  /** Token expiry, ms since epoch, when known */
+  tokenExpiresAt?: number;
+  hasRefreshToken: boolean;
+}
+
+/**
+ * Step of the getToken() decision path:
+ * - `cache` - token served from the in-memory cache
+ * - `inFlight` - joins a token request already running for the destination
+ * - `basic` - basic auth credentials, no provider call
+ * - `serviceKeyInit` - Step 0: session has no token and no auth config, provider uses service key auth config
+ * - `session` - Step 1: provider uses session auth config
+ * - `samlSession` - SAML provider without auth config (no service key store)
+ * - `serviceKeyFallback` - provider uses service key auth config after the session step
+ */
+export type TokenPathStep =
+  | 'cache'
+  | 'inFlight'
+  | 'basic'
+  | 'serviceKeyInit'
+  | 'session'
+  | 'samlSession'
+  | 'serviceKeyFallback';
+
+/**
+ * Store a value used by getToken() comes from
+ */
+export type TokenValueSource = 'session' | 'serviceKey' | 'cache';
+
+/**
+ * Planned step of explainToken()
+ */
+export interface TokenPlanStep {
+  step: TokenPathStep;
+  /** Provider may start interactive (browser) auth in this step */
+  interactive: boolean;
+  reason: string;
+}
+
+/**
+ * Dry-run result of the getToken() decision path, see explainToken()
+ */
+export interface TokenExplanation {
+  destination: string;
+  /** Steps in the order getToken() would try them; a step runs only if the previous one failed */
+  plannedPath: TokenPlanStep[];
+  /** Store each value came from (unset when the value is missing) */
+  sources: {
+    serviceUrl?: TokenValueSource;
+    token?: TokenValueSource;
+    authConfig?: TokenValueSource;
+    refreshToken?: TokenValueSource;
+    basicCredentials?: TokenValueSource;
+  };
+  /** First planned step needs interactive auth (no token can be obtained without the user) */
+  interactiveAuthRequired: boolean;
+  allowBrowserAuth: boolean;
+  /** Error getToken() would throw instead of (or after) the planned steps */
+  expectedError?: { code: AuthBrokerErrorCode; message: string };
+}
+
+/**
+ * Store the token flow used to call the provider
+ */
+export type TokenSource = 'session' | 'serviceKey';
+
+/**
+ * Fields shared by all AuthBroker event payloads
+ */
+export interface AuthBrokerEventBase {
+  destination: string;
+  /** When the event was emitted (ms since epoch) */
+  timestamp: number;
+}
+
+/**
+ * Payload of the `tokenIssued` and `tokenRefreshed` events
+ */
+export interface TokenObtainedEvent extends AuthBrokerEventBase {
+  source: TokenSource;
+  /** Time since the token flow started, in milliseconds */
+  durationMs: number;
+  tokenType: 'jwt' | 'saml';
+  /** Token expiry (ms since epoch), when the provider reported `expiresIn` */
+  expiresAt?: number;
+}
+
+/**
+ * Payload of the `tokenServedFromCache` event
+ */
+export interface TokenServedFromCacheEvent extends AuthBrokerEventBase {
+  /** Token expiry (ms since epoch) */
+  expiresAt: number;
+  remainingSeconds: number;
+}
+
+/**
+ * Payload of the `interactiveAuthRequired` event
+ */
+export interface InteractiveAuthRequiredEvent extends AuthBrokerEventBase {
+  error: InteractiveAuthRequiredError;
+  /** Time since the token flow started, in milliseconds */
+  durationMs: number;
+}
+
+/**
+ * Payload of the `interactiveAuthStarted` event
+ */
+export interface InteractiveAuthStartedEvent extends AuthBrokerEventBase {
+  source: TokenSource;
+  /** Browser configured for the login (e.g. `system`, `headless`, `none`) */
+  browser: string;
+}
+
+/**
+ * Payload of the `authFailed` event
+ */
+export interface AuthFailedEvent extends AuthBrokerEventBase {
+  error: Error;
+  /** Time since the token flow started, in milliseconds */
+  durationMs: number;
+}
+
+/**
+ * Payload of the `sessionPersisted` event
+ */
+export interface SessionPersistedEvent extends AuthBrokerEventBase {
+  source: TokenSource;
+  /** Time the session store write took, in milliseconds */
+  durationMs: number;
+}
+
+/**
+ * Payload of the `staleTokenServed` event
+ */
+export interface StaleTokenServedEvent extends AuthBrokerEventBase {
+  /** Token expiry (ms since epoch) */
+  expiresAt: number;
+  remainingSeconds: number;
+  /** Provider failure the session token was served despite */
+  error: AuthBrokerError;
+}
+
+/**
+ * Payload of the `samlSessionExpired` event
+ */
+export interface SamlSessionExpiredEvent extends AuthBrokerEventBase {
+  /** Why the session is considered expired (e.g. `redirect to idp.example.com`, `HTTP 401`) */
+  reason: string;
+  /** HTTP status of the ping response (undefined if all cookies had expired) */
+  status?: number;
+  /** Redirect target of the ping response */
+  location?: string;
+}
+
+/**
+ * Result of pingSamlSession():
+ * - `alive` - system accepted the session cookies
+ * - `expired` - session is gone; it was cleared and the next getToken() re-authenticates
+ * - `unreachable` - ping failed (network error, timeout), session left as is
+ * - `none` - destination has no SAML session cookies
+ */
+export type SamlSessionStatus = 'alive' | 'expired' | 'unreachable' | 'none';
+
+/**
+ * Events emitted by AuthBroker, keyed by event name
+ */
+export interface AuthBrokerEvents {
+  /** Provider returned a token for a destination without a session token (first login, service key) */
+  tokenIssued: TokenObtainedEvent;
+  /** Provider returned a new token replacing the session token */
+  tokenRefreshed: TokenObtainedEvent;
+  /** getToken() returned the token from the in-memory cache (tokenCache) */
+  tokenServedFromCache: TokenServedFromCacheEvent;
+  /** Interactive (browser) auth is needed but allowBrowserAuth is disabled */
+  interactiveAuthRequired: InteractiveAuthRequiredEvent;
+  /** Provider called without a refresh token: it may open browser login */
+  interactiveAuthStarted: InteractiveAuthStartedEvent;
+  /** Token flow failed; every waiting caller receives `error` */
+  authFailed: AuthFailedEvent;
+  /** Tokens saved to the session store */
+  sessionPersisted: SessionPersistedEvent;
+  /** Identity provider unreachable; still valid session token served (staleTokenFallback) */
+  staleTokenServed: StaleTokenServedEvent;
+  /** SAML session found expired by pingSamlSession() / samlKeepAlive and cleared */
+  samlSessionExpired: SamlSessionExpiredEvent;
+}
+
+export type AuthBrokerEventName = keyof AuthBrokerEvents;
+
+export type AuthBrokerEventListener<E extends AuthBrokerEventName> = (
+  event: AuthBrokerEvents[E],
+) => void;
+
+/**
+ * Event listeners passed in AuthBrokerConfig, keyed by event name
+ */
+export type AuthBrokerHooks = {
+  [E in AuthBrokerEventName]?: AuthBrokerEventListener<E>;
+};
+
+/**
+ * Request passed to AuthBrokerConfig.interactiveAuthHandler
+ */
+export interface InteractiveAuthRequest extends InteractiveAuthPrompt {
+  destination: string;
+  source: TokenSource;
+  /**
+   * - `start` - broker is about to call a provider that may log in interactively (no URL yet)
+   * - `prompt` - provider has the authorization URL / device code to show
+   */
+  stage: 'start' | 'prompt';
+  /** Browser configured for the broker (e.g. `system`, `headless`, `none`) */
+  browser: string;
+  /** Aborts when no caller waits for the token any more */
+  signal?: AbortSignal;
+}
+
+/**
+ * Decides whether and how interactive auth proceeds, see AuthBrokerConfig.interactiveAuthHandler
+ */
+export type InteractiveAuthHandler = (
+  request: InteractiveAuthRequest,
+) => InteractiveAuthDecision | Promise<InteractiveAuthDecision>;
+
+/**
+ * Listeners registered with on(), keyed by event name
+ */
+type EventListenerSets = {
+  [E in AuthBrokerEventName]?: Set<AuthBrokerEventListener<E>>;
+};
+
+/**
+ * Connection details needed to build auth headers without re-reading the session
+ */
+type HeaderConnectionInfo = Pick<
+  IConnectionConfig,
+  'authType' | 'sapClient' | 'language'
+>;
+
 /**
  * Configuration object for AuthBroker constructor
  */
@@ -84,14 +645,100 @@ export interface AuthBrokerConfig {
   sessionStore: ISessionStore;
   /** Service key store (optional) - stores and retrieves service keys */
   serviceKeyStore?: IServiceKeyStore;
-  /** Token provider (required) - handles token refresh and authentication flows through browser-based authorization (e.g., XSUAA provider) */
-  tokenProvider: ITokenProvider;
+  /** Token provider - handles token refresh and authentication flows through browser-based authorization (e.g., XSUAA provider). Required unless tokenProviderFactory is set. */
+  tokenProvider?: ITokenProvider;
+  /**
+   * Per-destination token provider factory (optional).
+   * When set, the broker builds one provider per destination from the auth config
+   * it loads (session or service key) and caches it. Takes precedence over tokenProvider.
+   */
+  tokenProviderFactory?: TokenProviderFactory;
   /**
    * Allow browser-based authentication (optional, default: true)
    * When false, getToken() will throw BROWSER_AUTH_REQUIRED error instead of blocking on browser auth.
    * Use this for headless/non-interactive environments (e.g., MCP stdio transport).
    */
   allowBrowserAuth?: boolean;
+  /**
+   * In-memory token cache (optional, default: disabled).
+   * When enabled, getToken() returns the last issued token without touching stores or
+   * provider while it is still valid (based on `expiresIn` from the provider result).
+   * Pass `true` for defaults or an options object to configure the safety margin.
+   */
+  tokenCache?: boolean | TokenCacheOptions;
+  /**
+   * Proactive background refresh (optional, default: disabled).
+   * When enabled, tokens of recently used destinations are refreshed shortly before expiry
+   * (based on `expiresIn` from the provider result), with jitter. Background refresh is
+   * non-interactive only: it requires a refresh token, and the provider gets an
+   * `onInteractiveAuth` callback that answers `deny` (a refresh that still logs in
+   * interactively is discarded). Browser auth is therefore prevented only for providers
+   * that honour `onInteractiveAuth`. Call dispose() to stop timers.
+   */
+  backgroundRefresh?: boolean | BackgroundRefreshOptions;
+  /**
+   * Resolver for basic auth passwords (optional).
+   * Default resolves `env:NAME` and `file:/path` references and returns other values as is.
+   */
+  secretResolver?: SecretResolver;
+  /**
+   * Retry policy for transient provider failures (optional, default: no retries).
+   * Applies only to non-interactive provider calls (session with refresh token) and
+   * never to browser logins. Pass `true` for defaults or a policy object.
+   */
+  retryPolicy?: boolean | RetryPolicy;
+  /**
+   * Per-destination circuit breaker (optional, default: disabled).
+   * Opens after `failureThreshold` consecutive transient provider failures, fails fast with
+   * CircuitOpenError while open, and lets one trial request through after `cooldownMs`.
+   * Pass `true` for defaults or an options object.
+   */
+  circuitBreaker?: boolean | CircuitBreakerOptions;
+  /**
+   * Cross-process refresh lock (optional, default: disabled).
+   * Use when several processes share one session store: the token flow for a destination
+   * runs under a lock file, and a token another process refreshed while we waited is
+   * taken from the session instead of refreshing again. Pass `true` for defaults or an options object.
+   */
+  refreshLock?: boolean | RefreshLockOptions;
+  /**
+   * Stale-token fallback (optional, default: disabled).
+   * When refreshing via session fails because the identity provider is unreachable
+   * (NetworkError, CircuitOpenError or a retryable provider error), getToken() returns the
+   * session JWT while its `exp` is more than `minRemainingSeconds` away, logs a warning
+   * and emits `staleTokenServed`. Pass `true` for defaults or an options object.
+   */
+  staleTokenFallback?: boolean | StaleTokenFallbackOptions;
+  /**
+   * Event listeners registered at construction (optional), same as calling on() for each.
+   * E.g. `{ interactiveAuthStarted: (e) => notify(e.destination) }`.
+   */
+  hooks?: AuthBrokerHooks;
+  /**
+   * Interactive auth handler (optional).
+   * Consulted with stage `start` before every provider call that may log in interactively
+   * (no refresh token), and by providers that support `TokenRequestOptions.onInteractiveAuth`
+   * with stage `prompt` and the authorization URL / device code. Return `approve` to proceed,
+   * `delegate` to show the URL yourself (e.g. via the MCP client) instead of opening a browser,
+   * or `deny` to fail with InteractiveAuthRequiredError. A handler that throws denies.
+   */
+  interactiveAuthHandler?: InteractiveAuthHandler;
+  /**
+   * SAP ADT CSRF token fetch (optional).
+   * Tokens are fetched lazily by getCsrfToken() and getAuthHeaders(destination, { csrf: true })
+   * with a `GET` (`X-CSRF-Token: Fetch`) against the destination's serviceUrl, and cached with
+   * the session cookies of that response until the auth token changes or invalidateCsrfToken().
+   */
+  csrf?: CsrfOptions;
+  /**
+   * SAML session keep-alive (optional, default: disabled).
+   * When enabled, SAML sessions of recently used destinations are pinged every
+   * `intervalSeconds` with a `GET` against `serviceUrl` + `path` using the session cookies.
+   * A redirect to the identity provider login (or 401) marks the session expired: it is
+   * cleared from the session store, `samlSessionExpired` is emitted and the next getToken()
+   * re-authenticates. Pass `true` for defaults or an options object. Call dispose() to stop timers.
+   */
+  samlKeepAlive?: boolean | SamlKeepAliveOptions;
 }
 
 /**
@@ -102,15 +749,39 @@ export class AuthBroker {
   private logger: ILogger;
   private serviceKeyStore: IServiceKeyStore | undefined;
   private sessionStore: ISessionStore;
-  private tokenProvider: ITokenProvider;
+  private tokenProvider: ITokenProvider | undefined;
+  private tokenProviderFactory: TokenProviderFactory | undefined;
+  private tokenProviders = new Map<string, ITokenProvider>();
+  private pendingTokenRequests = new Map<string, PendingTokenRequest>();
+  private tokenCache = new Map<string, CachedToken>();
+  private tokenCacheSkewMs: number | undefined;
+  private backgroundRefresh: Required<BackgroundRefreshOptions> | undefined;
+  private refreshTimers = new Map<string, NodeJS.Timeout>();
+  private lastUsedAt = new Map<string, number>();
+  private headerConnectionInfo = new Map<string, HeaderConnectionInfo>();
+  private disposed = false;
+  private secretResolver: SecretResolver;
+  private retryPolicy: Required<RetryPolicy> | undefined;
+  private circuitBreakerOptions: Required<CircuitBreakerOptions> | undefined;
+  private circuitBreakers = new Map<string, CircuitBreaker>();
+  private refreshLock: Required<RefreshLockOptions> | undefined;
+  private staleTokenFallback: Required<StaleTokenFallbackOptions> | undefined;
+  private eventListeners: EventListenerSets = {};
   private allowBrowserAuth: boolean;
+  private interactiveAuthHandler: InteractiveAuthHandler | undefined;
+  private csrfOptions: Required<CsrfOptions>;
+  private csrfSessions = new Map<string, CsrfSession>();
+  private pendingCsrfFetches = new Map<string, PendingCsrfFetch>();
+  private samlKeepAlive: Required<SamlKeepAliveOptions> | undefined;
+  private keepAliveTimers = new Map<string, NodeJS.Timeout>();
 
   /**
    * Create a new AuthBroker instance
    * @param config Configuration object with stores and token provider
    *               - sessionStore: Store for session data (required)
    *               - serviceKeyStore: Store for service keys (optional)
-   *               - tokenProvider: Token provider implementing ITokenProvider interface (required) - handles browser-based authorization
+   *               - tokenProvider: Token provider implementing ITokenProvider interface - handles browser-based authorization
+   *               - tokenProviderFactory: Per-destination provider factory (required if tokenProvider is not set)
    * @param browser Optional browser name for authentication (chrome, edge, firefox, system, headless, none).
    *                Default: 'system' (system default browser).
    *                Use 'headless' for SSH/remote sessions - logs URL and waits for manual callback.
@@ -128,14 +799,17 @@ export class AuthBroker {
       throw new Error('AuthBroker: sessionStore is required');
     }
 
-    // Validate required tokenProvider
-    if (!config.tokenProvider) {
-      throw new Error('AuthBroker: tokenProvider is required');
+    // Validate required tokenProvider (or factory)
+    if (!config.tokenProvider && !config.tokenProviderFactory) {
+      throw new Error(
+        'AuthBroker: tokenProvider is required (or provide tokenProviderFactory)',
+      );
     }
 
     // Validate that stores and provider are correctly instantiated (have required methods)
     const sessionStore = config.sessionStore;
     const tokenProvider = config.tokenProvider;
+    const tokenProviderFactory = config.tokenProviderFactory;
     const serviceKeyStore = config.serviceKeyStore;
 
     // Check sessionStore methods
@@ -160,12 +834,16 @@ export class AuthBroker {
       );
     }
 
-    // Check tokenProvider methods (required)
-    if (typeof tokenProvider.getTokens !== 'function') {
+    // Check tokenProvider methods (required when provided)
+    if (tokenProvider && typeof tokenProvider.getTokens !== 'function') {
       throw new Error('AuthBroker: tokenProvider.getTokens must be a function');
     }
     // validateToken is optional, so we don't check it
 
+    if (tokenProviderFactory && typeof tokenProviderFactory !== 'function') {
+      throw new Error('AuthBroker: tokenProviderFactory must be a function');
+    }
+
     // Check serviceKeyStore methods (if provided)
     if (serviceKeyStore) {
       if (typeof serviceKeyStore.getServiceKey !== 'function') {
@@ -188,18 +866,94 @@ export class AuthBroker {
     this.serviceKeyStore = serviceKeyStore;
     this.sessionStore = sessionStore;
     this.tokenProvider = tokenProvider;
+    this.tokenProviderFactory = tokenProviderFactory;
     this.browser = browser || 'system';
     this.logger = logger || noOpLogger;
     this.allowBrowserAuth = config.allowBrowserAuth ?? true;
+    this.interactiveAuthHandler = config.interactiveAuthHandler;
+    this.secretResolver = config.secretResolver ?? resolveSecretReference;
+    if (config.retryPolicy) {
+      this.retryPolicy = {
+        ...DEFAULT_RETRY_POLICY,
+        ...(typeof config.retryPolicy === 'object' ? config.retryPolicy : {}),
+      };
+    }
+    if (config.circuitBreaker) {
+      this.circuitBreakerOptions = {
+        ...DEFAULT_CIRCUIT_BREAKER,
+        ...(typeof config.circuitBreaker === 'object'
+          ? config.circuitBreaker
+          : {}),
+      };
+    }
+    if (config.refreshLock) {
+      this.refreshLock = {
+        ...DEFAULT_REFRESH_LOCK,
+        ...(typeof config.refreshLock === 'object' ? config.refreshLock : {}),
+      };
+    }
+    if (config.staleTokenFallback) {
+      this.staleTokenFallback = {
+        ...DEFAULT_STALE_TOKEN_FALLBACK,
+        ...(typeof config.staleTokenFallback === 'object'
+          ? config.staleTokenFallback
+          : {}),
+      };
+    }
+    this.csrfOptions = { ...DEFAULT_CSRF, ...config.csrf };
+    const hooks = config.hooks;
+    if (hooks) {
+      const addHook = <E extends AuthBrokerEventName>(event: E) => {
+        const listener = hooks[event];
+        if (listener) {
+          this.on(event, listener);
+        }
+      };
+      for (const event of Object.keys(hooks) as AuthBrokerEventName[]) {
+        addHook(event);
+      }
+    }
+    if (config.tokenCache) {
+      const skewSeconds =
+        typeof config.tokenCache === 'object'
+          ? (config.tokenCache.expirySkewSeconds ??
+            DEFAULT_TOKEN_CACHE_SKEW_SECONDS)
+          : DEFAULT_TOKEN_CACHE_SKEW_SECONDS;
+      this.tokenCacheSkewMs = skewSeconds * 1000;
+    }
+    if (config.backgroundRefresh) {
+      this.backgroundRefresh = {
+        ...DEFAULT_BACKGROUND_REFRESH,
+        ...(typeof config.backgroundRefresh === 'object'
+          ? config.backgroundRefresh
+          : {}),
+      };
+    }
+    if (config.samlKeepAlive) {
+      this.samlKeepAlive = {
+        ...DEFAULT_SAML_KEEP_ALIVE,
+        ...(typeof config.samlKeepAlive === 'object'
+          ? config.samlKeepAlive
+          : {}),
+      };
+    }
 
     // Log successful initialization
     const hasServiceKeyStore = !!this.serviceKeyStore;
     this.logger?.info('[AuthBroker] Broker initialized', {
       hasServiceKeyStore,
       hasSessionStore: true,
-      hasTokenProvider: true,
+      hasTokenProvider: !!this.tokenProvider,
+      hasTokenProviderFactory: !!this.tokenProviderFactory,
       browser: this.browser,
       allowBrowserAuth: this.allowBrowserAuth,
+      hasInteractiveAuthHandler: !!this.interactiveAuthHandler,
+      tokenCache: this.tokenCacheSkewMs !== undefined,
+      backgroundRefresh: !!this.backgroundRefresh,
+      circuitBreaker: !!this.circuitBreakerOptions,
+      refreshLock: !!this.refreshLock,
+      staleTokenFallback: !!this.staleTokenFallback,
+      samlKeepAlive: !!this.samlKeepAlive,
     });
   }
 
@@ -310,9 +1064,10 @@ export class AuthBroker {
       this.logger?.error(
         `Session for destination "${destination}" is missing required field 'serviceUrl'. SessionStore must contain initial session with serviceUrl${this.serviceKeyStore ? ' or serviceKeyStore must contain serviceUrl' : ''}.`,
       );
-      throw new Error(
+      throw new ConfigMissingError(
         `Session for destination "${destination}" is missing required field 'serviceUrl'. ` +
           `SessionStore must contain initial session with serviceUrl${this.serviceKeyStore ? ' or serviceKeyStore must contain serviceUrl' : ''}.`,
+        { destination },
       );
     }
 
@@ -320,24 +1075,82 @@ export class AuthBroker {
   }
 
   /**
-   * Get UAA credentials from session or service key
+   * Get basic auth credentials for destination.
+   * Uses username/password from session with authType 'basic'; falls back to service key
+   * connection config with authType 'basic' when session has no token and no auth config.
+   * @returns base64-encoded `username:password` or null if destination does not use basic auth
    */
-  private async getAuthorizationConfigFromServiceKey(
+  private async getBasicCredentials(
     destination: string,
-  ): Promise<IAuthorizationConfig> {
-    if (!this.serviceKeyStore) {
-      throw new Error(
-        `Authorization config not found for ${destination}. Session has no auth config and serviceKeyStore is not available.`,
-      );
+    connConfig: IConnectionConfig | null,
+    hasSessionAuth: boolean,
+  ): Promise<string | null> {
+    let username: string | undefined;
+    let password: string | undefined;
+    let source = 'session';
+
+    if (hasBasicCredentials(connConfig)) {
+      username = connConfig.username;
+      password = connConfig.password;
+    } else if (!hasSessionAuth && this.serviceKeyStore) {
+      try {
+        const serviceKeyConnConfig =
+          await this.serviceKeyStore.getConnectionConfig(destination);
+        if (hasBasicCredentials(serviceKeyConnConfig)) {
+          username = serviceKeyConnConfig.username;
+          password = serviceKeyConnConfig.password;
+          source = 'serviceKey';
+        }
+      } catch (error: any) {
+        this.logger?.debug(
+          `No basic auth credentials in service key for ${destination}: ${getErrorMessage(error)}`,
+        );
+      }
     }
 
-    let serviceKeyAuthConfig: IAuthorizationConfig | null = null;
+    if (!username || !password) {
+      return null;
+    }
+
+    let resolvedPassword: string;
     try {
-      serviceKeyAuthConfig =
-        await this.serviceKeyStore.getAuthorizationConfig(destination);
+      resolvedPassword = await this.secretResolver(password, destination);
     } catch (error: any) {
-      if (hasErrorCode(error)) {
-        if (error.code === STORE_ERROR_CODES.FILE_NOT_FOUND) {
+      this.logger?.error(
+        `Failed to resolve basic auth password for ${destination}: ${getErrorMessage(error)}`,
+      );
+      throw new ConfigMissingError(getErrorMessage(error), {
+        destination,
+        cause: error,
+      });
+    }
+    this.logger?.info(
+      `[AuthBroker] Using basic auth for ${destination} (from ${source})`,
+      { username },
+    );
+    return Buffer.from(`${username}:${resolvedPassword}`).toString('base64');
+  }
+
+  /**
+   * Get UAA credentials from session or service key
+   */
+  private async getAuthorizationConfigFromServiceKey(
+    destination: string,
+  ): Promise<IAuthorizationConfig> {
+    if (!this.serviceKeyStore) {
+      throw new ConfigMissingError(
+        `Authorization config not found for ${destination}. Session has no auth config and serviceKeyStore is not available.`,
+        { destination },
+      );
+    }
+
+    let serviceKeyAuthConfig: IAuthorizationConfig | null = null;
+    try {
+      serviceKeyAuthConfig =
+        await this.serviceKeyStore.getAuthorizationConfig(destination);
+    } catch (error: any) {
+      if (hasErrorCode(error)) {
+        if (error.code === STORE_ERROR_CODES.FILE_NOT_FOUND) {
           this.logger?.debug(
             `Service key file not found for ${destination}: ${error.filePath || 'unknown path'}`,
           );
@@ -358,8 +1171,9 @@ export class AuthBroker {
     }
 
     if (!serviceKeyAuthConfig) {
-      throw new Error(
+      throw new ConfigMissingError(
         `Authorization config not found for ${destination}. Session has no auth config${this.serviceKeyStore ? ' and serviceKeyStore has no auth config' : ' and serviceKeyStore is not available'}.`,
+        { destination },
       );
     }
 
@@ -367,13 +1181,51 @@ export class AuthBroker {
   }
 
   /**
-   * Save token and config to session
+   * Save token and config to session.
+   * Uses the store's setSession() when implemented; otherwise writes connection config, then
+   * authorization config, and rolls the connection config back if the second write fails.
+   * @param previousConnectionConfig Connection config loaded from session before the flow (rollback target)
    */
   private async saveTokenToSession(
     destination: string,
     connectionConfig: IConnectionConfig,
     authorizationConfig: IAuthorizationConfig,
+    previousConnectionConfig: IConnectionConfig | null,
   ): Promise<void> {
+    const saveAuthorizationConfig = !!(
+      authorizationConfig.uaaUrl &&
+      authorizationConfig.uaaClientId &&
+      authorizationConfig.uaaClientSecret
+    );
+    if (!saveAuthorizationConfig) {
+      this.logger?.debug(
+        `Skipping authorization config save for ${destination}: missing UAA fields`,
+      );
+    }
+
+    const setSession = (
+      this.sessionStore as Partial<ITransactionalSessionStore>
+    ).setSession;
+    if (typeof setSession === 'function') {
+      try {
+        await setSession.call(
+          this.sessionStore,
+          destination,
+          connectionConfig,
+          saveAuthorizationConfig ? authorizationConfig : undefined,
+        );
+      } catch (error: any) {
+        this.logger?.error(
+          `Failed to save session for ${destination}: ${getErrorMessage(error)}`,
+        );
+        throw new StoreWriteError(
+          `Failed to save session for destination "${destination}": ${getErrorMessage(error)}`,
+          { destination, cause: error },
+        );
+      }
+      return;
+    }
+
     try {
       await this.sessionStore.setConnectionConfig(
         destination,
@@ -383,49 +1235,277 @@ export class AuthBroker {
       this.logger?.error(
         `Failed to save connection config to session for ${destination}: ${getErrorMessage(error)}`,
       );
-      throw new Error(
+      throw new StoreWriteError(
         `Failed to save connection config for destination "${destination}": ${getErrorMessage(error)}`,
+        { destination, cause: error },
       );
     }
 
-    if (
-      authorizationConfig.uaaUrl &&
-      authorizationConfig.uaaClientId &&
-      authorizationConfig.uaaClientSecret
-    ) {
+    if (!saveAuthorizationConfig) {
+      return;
+    }
+    try {
+      await this.sessionStore.setAuthorizationConfig(
+        destination,
+        authorizationConfig,
+      );
+    } catch (error: any) {
+      this.logger?.error(
+        `Failed to save authorization config to session for ${destination}: ${getErrorMessage(error)}`,
+      );
+      await this.rollbackConnectionConfig(
+        destination,
+        previousConnectionConfig,
+      );
+      throw new StoreWriteError(
+        `Failed to save authorization config for destination "${destination}": ${getErrorMessage(error)}`,
+        { destination, cause: error },
+      );
+    }
+  }
+
+  /**
+   * Restore connection config written before a failed authorization config write,
+   * so the new access token is not left paired with the old refresh token
+   */
+  private async rollbackConnectionConfig(
+    destination: string,
+    previousConnectionConfig: IConnectionConfig | null,
+  ): Promise<void> {
+    if (!previousConnectionConfig) {
+      this.logger?.warn(
+        `Cannot roll back connection config for ${destination}: no previous connection config`,
+      );
+      return;
+    }
+    try {
+      await this.sessionStore.setConnectionConfig(
+        destination,
+        previousConnectionConfig,
+      );
+      this.logger?.warn(
+        `Rolled back connection config for ${destination} after failed authorization config save`,
+      );
+    } catch (error: any) {
+      this.logger?.error(
+        `Failed to roll back connection config for ${destination}: ${getErrorMessage(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Get token provider for destination.
+   * Uses tokenProviderFactory (cached per destination) if configured, otherwise the shared tokenProvider.
+   * Callers switching to another auth config (service key fallback) drop the cached provider first.
+   */
+  private async getTokenProvider(
+    destination: string,
+    authConfig: IAuthorizationConfig,
+    connConfig: IConnectionConfig | null,
+  ): Promise<ITokenProvider> {
+    if (!this.tokenProviderFactory) {
+      if (!this.tokenProvider) {
+        throw new Error('AuthBroker: tokenProvider is required');
+      }
+      return this.tokenProvider;
+    }
+
+    const cached = this.tokenProviders.get(destination);
+    if (cached) {
+      return cached;
+    }
+
+    const provider = await this.createTokenProvider(
+      destination,
+      authConfig,
+      connConfig,
+    );
+    this.tokenProviders.set(destination, provider);
+    return provider;
+  }
+
+  /**
+   * Build a new provider for destination with tokenProviderFactory (not cached)
+   */
+  private async createTokenProvider(
+    destination: string,
+    authConfig: IAuthorizationConfig,
+    connConfig: IConnectionConfig | null,
+  ): Promise<ITokenProvider> {
+    if (!this.tokenProviderFactory) {
+      throw new Error('AuthBroker: tokenProviderFactory is required');
+    }
+    let provider: ITokenProvider;
+    try {
+      provider = await this.tokenProviderFactory(
+        destination,
+        authConfig,
+        connConfig,
+      );
+    } catch (error: any) {
+      this.logger?.error(
+        `Token provider factory failed for ${destination}: ${getErrorMessage(error)}`,
+      );
+      throw new TokenProviderError(
+        `Token provider factory failed for destination "${destination}": ${getErrorMessage(error)}`,
+        { destination, cause: error },
+      );
+    }
+    if (!provider || typeof provider.getTokens !== 'function') {
+      throw new Error(
+        `AuthBroker: tokenProviderFactory returned invalid provider for destination "${destination}" (getTokens must be a function)`,
+      );
+    }
+
+    this.logger?.debug(`Token provider created for ${destination}`);
+    return provider;
+  }
+
+  /**
+   * Call provider.getTokens(), retrying transient failures per retryPolicy.
+   * Only non-interactive calls are retried; interactive auth failures never are.
+   * The signal is passed to the provider and stops waiting (and retrying) once aborted.
+   */
+  private async callProviderWithRetry(
+    destination: string,
+    provider: ITokenProvider,
+    nonInteractive: boolean,
+    signal?: AbortSignal,
+    onInteractiveAuth?: TokenRequestOptions['onInteractiveAuth'],
+  ): Promise<ITokenResult> {
+    // Providers that don't accept options ignore the extra argument
+    const getTokens = provider.getTokens as
+      | ((options?: TokenRequestOptions) => Promise<ITokenResult>)
+      | undefined;
+    if (!getTokens) {
+      throw new Error('AuthBroker: tokenProvider.getTokens is required');
+    }
+
+    const policy = this.retryPolicy;
+    const attempts =
+      policy && nonInteractive ? Math.max(1, policy.attempts) : 1;
+    for (let attempt = 1; ; attempt++) {
       try {
-        await this.sessionStore.setAuthorizationConfig(
-          destination,
-          authorizationConfig,
+        return await raceWithSignal(
+          getTokens.call(
+            provider,
+            onInteractiveAuth ? { signal, onInteractiveAuth } : { signal },
+          ),
+          signal,
         );
       } catch (error: any) {
-        this.logger?.error(
-          `Failed to save authorization config to session for ${destination}: ${getErrorMessage(error)}`,
-        );
-        throw new Error(
-          `Failed to save authorization config for destination "${destination}": ${getErrorMessage(error)}`,
+        if (
+          signal?.aborted ||
+          !policy ||
+          attempt >= attempts ||
+          isInteractiveAuthFailure(error) ||
+          !isRetryableError(error, policy)
+        ) {
+          throw error;
+        }
+        const delay = getRetryDelay(attempt, policy);
+        const reason = hasErrorCode(error)
+          ? error.code
+          : (getErrorStatus(error) ?? getErrorMessage(error));
+        this.logger?.warn(
+          `Token provider transient failure for ${destination} (${reason}), retry ${attempt}/${attempts - 1} in ${delay}ms`,
         );
+        await sleep(delay, signal);
       }
-    } else {
-      this.logger?.debug(
-        `Skipping authorization config save for ${destination}: missing UAA fields`,
-      );
     }
   }
 
+  /**
+   * Call the token provider for destination, consulting interactiveAuthHandler and the
+   * circuit breaker
+   * @param nonInteractive Refresh grant: not retried as interactive auth, no handler prompt
+   * @param allowBrowserAuth When false, provider prompts for interactive auth are denied and
+   * a provider that still goes interactive fails with InteractiveAuthRequiredError
+   */
   private async requestTokens(
     destination: string,
-    sourceLabel: string,
+    sourceLabel: TokenSource,
+    provider: ITokenProvider,
+    nonInteractive = false,
+    signal?: AbortSignal,
+    allowBrowserAuth = true,
   ): Promise<ITokenResult> {
     this.logger?.info(
       `[AuthBroker] Requesting tokens for ${destination} via ${sourceLabel}`,
     );
+
+    // Check the breaker first: don't ask the user to approve a login that fails fast
+    const breaker = this.getCircuitBreaker(destination);
+    if (breaker && !breaker.tryAcquire()) {
+      const { retryAt } = breaker.getState();
+      this.logger?.warn(
+        `Circuit breaker open for ${destination}, not calling token provider`,
+      );
+      throw new CircuitOpenError(
+        `Token provider circuit breaker is open for ${destination} after repeated failures${retryAt ? `; next attempt allowed at ${formatExpirationDate(retryAt)}` : ''}`,
+        { destination, retryAt },
+      );
+    }
+
+    let denied = false;
+    let onInteractiveAuth: TokenRequestOptions['onInteractiveAuth'];
+    if (!allowBrowserAuth) {
+      // Stateful providers may log in again when the refresh grant fails
+      onInteractiveAuth = async () => {
+        denied = true;
+        return 'deny';
+      };
+    } else if (!nonInteractive && this.interactiveAuthHandler) {
+      let decision: InteractiveAuthDecision;
+      try {
+        decision = await this.askInteractiveAuthHandler(
+          destination,
+          sourceLabel,
+          'start',
+          {},
+          signal,
+        );
+      } catch (error: unknown) {
+        // Caller gave up before the provider was called: says nothing about the endpoint
+        breaker?.releaseTrial();
+        throw error;
+      }
+      if (decision === 'deny') {
+        breaker?.releaseTrial();
+        throw this.createInteractiveAuthDeniedError(destination);
+      }
+      onInteractiveAuth = async (prompt) => {
+        const promptDecision = await this.askInteractiveAuthHandler(
+          destination,
+          sourceLabel,
+          'prompt',
+          prompt,
+          signal,
+        );
+        denied ||= promptDecision === 'deny';
+        return promptDecision;
+      };
+    }
+
+    if (!nonInteractive) {
+      this.emit('interactiveAuthStarted', {
+        destination,
+        source: sourceLabel,
+        browser: this.browser || 'system',
+      });
+    }
+
     try {
-      const getTokens = this.tokenProvider.getTokens;
-      if (!getTokens) {
-        throw new Error('AuthBroker: tokenProvider.getTokens is required');
+      const tokenResult = await this.callProviderWithRetry(
+        destination,
+        provider,
+        nonInteractive,
+        signal,
+        onInteractiveAuth,
+      );
+      if (denied && !allowBrowserAuth) {
+        throw new Error('Token provider authenticated interactively');
       }
-      const tokenResult = await getTokens.call(this.tokenProvider);
       const expiresAt = tokenResult.expiresIn
         ? Date.now() + tokenResult.expiresIn * 1000
         : undefined;
@@ -437,60 +1517,225 @@ export class AuthBroker {
         expiresIn: tokenResult.expiresIn,
         expiresAt: expiresAt ? formatExpirationDate(expiresAt) : undefined,
       });
+      breaker?.recordSuccess();
       return tokenResult;
     } catch (error: any) {
-      if (hasErrorCode(error)) {
-        if (error.code === 'VALIDATION_ERROR') {
-          throw new Error(
-            `Token provider validation failed for ${destination}: missing ${error.missingFields?.join(', ') || 'required fields'}`,
-          );
-        }
-        if (error.code === 'BROWSER_AUTH_ERROR') {
-          throw new Error(
-            `Token provider browser authentication failed for ${destination}: ${getErrorMessage(error)}`,
-          );
-        }
-        if (
-          error.code === 'ECONNREFUSED' ||
-          error.code === 'ETIMEDOUT' ||
-          error.code === 'ENOTFOUND'
-        ) {
-          throw new Error(
-            `Token provider network error for ${destination}: ${error.code}`,
+      if (signal?.aborted) {
+        // Caller gave up: says nothing about the endpoint
+        breaker?.releaseTrial();
+        throw signal.reason;
+      }
+      if (denied) {
+        // Provider gave up because the handler said no: says nothing about the endpoint
+        breaker?.releaseTrial();
+        if (!allowBrowserAuth) {
+          throw new InteractiveAuthRequiredError(
+            `Token provider for destination "${destination}" requested interactive authentication, which is not allowed for this request (background refresh or allowBrowserAuth disabled)`,
+            { destination, cause: error },
           );
         }
-        if (error.code === 'SERVICE_KEY_ERROR') {
-          throw new Error(
-            `Token provider service key error for ${destination}: ${getErrorMessage(error)}`,
-          );
+        throw this.createInteractiveAuthDeniedError(destination, error);
+      }
+      const providerError = this.toProviderError(destination, error);
+      if (breaker) {
+        // Only transient failures mean the endpoint is unreachable
+        if (providerError.retryable) {
+          breaker.recordFailure();
+          const { state, consecutiveFailures } = breaker.getState();
+          if (state === 'open') {
+            this.logger?.warn(
+              `Circuit breaker opened for ${destination} after ${consecutiveFailures} consecutive failures`,
+            );
+          }
+        } else {
+          breaker.recordSuccess();
         }
       }
-      throw new Error(
-        `Token provider error for ${destination}: ${getErrorMessage(error)}`,
+      throw providerError;
+    }
+  }
+
+  /**
+   * Ask interactiveAuthHandler how interactive auth proceeds.
+   * Handler failures and unknown decisions deny.
+   */
+  private async askInteractiveAuthHandler(
+    destination: string,
+    source: TokenSource,
+    stage: InteractiveAuthRequest['stage'],
+    prompt: InteractiveAuthPrompt,
+    signal?: AbortSignal,
+  ): Promise<InteractiveAuthDecision> {
+    const handler = this.interactiveAuthHandler;
+    if (!handler) {
+      return 'approve';
+    }
+    let decision: InteractiveAuthDecision;
+    try {
+      decision = await raceWithSignal(
+        Promise.resolve(
+          handler({
+            ...prompt,
+            destination,
+            source,
+            stage,
+            browser: this.browser || 'system',
+            signal,
+          }),
+        ),
+        signal,
+      );
+    } catch (error: any) {
+      if (signal?.aborted) {
+        throw signal.reason;
+      }
+      this.logger?.warn(
+        `interactiveAuthHandler failed for ${destination}: ${getErrorMessage(error)}, denying interactive auth`,
+      );
+      return 'deny';
+    }
+    if (
+      decision !== 'approve' &&
+      decision !== 'delegate' &&
+      decision !== 'deny'
+    ) {
+      this.logger?.warn(
+        `interactiveAuthHandler returned unknown decision "${String(decision)}" for ${destination}, denying interactive auth`,
+      );
+      return 'deny';
+    }
+    this.logger?.info(
+      `[AuthBroker] Interactive auth for ${destination} (${stage}): ${decision}`,
+    );
+    return decision;
+  }
+
+  /**
+   * Error for interactive auth denied by interactiveAuthHandler
+   */
+  private createInteractiveAuthDeniedError(
+    destination: string,
+    cause?: unknown,
+  ): InteractiveAuthRequiredError {
+    return new InteractiveAuthRequiredError(
+      `Interactive authentication for destination "${destination}" was denied by interactiveAuthHandler`,
+      { destination, cause },
+    );
+  }
+
+  /**
+   * Get circuit breaker for destination (created on first use), or undefined if disabled
+   */
+  private getCircuitBreaker(destination: string): CircuitBreaker | undefined {
+    if (!this.circuitBreakerOptions) {
+      return undefined;
+    }
+    let breaker = this.circuitBreakers.get(destination);
+    if (!breaker) {
+      breaker = new CircuitBreaker(this.circuitBreakerOptions);
+      this.circuitBreakers.set(destination, breaker);
+    }
+    return breaker;
+  }
+
+  /**
+   * Map provider failure to typed AuthBroker error
+   */
+  private toProviderError(destination: string, error: any): AuthBrokerError {
+    if (hasErrorCode(error)) {
+      if (error.code === 'VALIDATION_ERROR') {
+        return new ValidationError(
+          `Token provider validation failed for ${destination}: missing ${error.missingFields?.join(', ') || 'required fields'}`,
+          { destination, cause: error, missingFields: error.missingFields },
+        );
+      }
+      if (error.code === 'BROWSER_AUTH_ERROR') {
+        return new BrowserAuthError(
+          `Token provider browser authentication failed for ${destination}: ${getErrorMessage(error)}`,
+          { destination, cause: error },
+        );
+      }
+      if (
+        (this.retryPolicy ?? DEFAULT_RETRY_POLICY).retryableCodes.includes(
+          error.code,
+        )
+      ) {
+        return new NetworkError(
+          `Token provider network error for ${destination}: ${error.code}`,
+          { destination, cause: error, networkCode: error.code },
+        );
+      }
+      if (error.code === 'SERVICE_KEY_ERROR') {
+        return new ServiceKeyError(
+          `Token provider service key error for ${destination}: ${getErrorMessage(error)}`,
+          { destination, cause: error },
+        );
+      }
+    }
+    if (isInteractiveAuthFailure(error)) {
+      return new BrowserAuthError(
+        `Token provider browser authentication failed for ${destination}: ${getErrorMessage(error)}`,
+        { destination, cause: error },
       );
     }
+    return new TokenProviderError(
+      `Token provider error for ${destination}: ${getErrorMessage(error)}`,
+      {
+        destination,
+        cause: error,
+        retryable: isRetryableError(
+          error,
+          this.retryPolicy ?? DEFAULT_RETRY_POLICY,
+        ),
+      },
+    );
   }
 
+  /**
+   * Save provider result to session, remember it and emit lifecycle events
+   * @returns Token to serve: the JWT, or for SAML the `Cookie` header of cookies valid for serviceUrl
+   */
   private async persistTokenResult(
     destination: string,
     serviceUrl: string,
     baseConnConfig: IConnectionConfig | null,
     authConfig: IAuthorizationConfig,
     tokenResult: ITokenResult,
-  ): Promise<void> {
+    source: TokenSource,
+    signal?: AbortSignal,
+  ): Promise<string> {
+    // Result arrived after the caller gave up: don't touch the session
+    signal?.throwIfAborted();
+
     const token = tokenResult.authorizationToken;
     if (!token) {
-      throw new Error(
+      throw new TokenProviderError(
         `Token provider did not return authorization token for destination "${destination}"`,
+        { destination },
       );
     }
 
     const isSaml = tokenResult.tokenType === 'saml';
-    const connectionConfigWithServiceUrl: IConnectionConfig = {
+    // SAML cookies may carry Domain/Path/Expires: stored as plain cookies plus attributes,
+    // served as Cookie header of the cookies valid for serviceUrl
+    const cookieJar = isSaml ? CookieJar.parse(token) : undefined;
+    const servedToken = cookieJar
+      ? cookieJar.getCookieHeader(serviceUrl)
+      : token;
+    if (!servedToken) {
+      throw new TokenProviderError(
+        `Token provider returned no SAML session cookies valid for ${serviceUrl} (destination "${destination}")`,
+        { destination },
+      );
+    }
+    const connectionConfigWithServiceUrl: IConnectionConfig &
+      StoredSessionCookies = {
       ...baseConnConfig,
       serviceUrl,
       authorizationToken: isSaml ? undefined : token,
-      sessionCookies: isSaml ? token : undefined,
+      sessionCookies: undefined,
+      sessionCookieAttributes: undefined,
+      ...cookieJar?.toSession(),
       authType: isSaml ? 'saml' : 'jwt',
     };
 
@@ -514,25 +1759,256 @@ export class AuthBroker {
       },
     );
 
+    const saveStartedAt = Date.now();
     await this.saveTokenToSession(
       destination,
       connectionConfigWithServiceUrl,
       authorizationConfig,
+      baseConnConfig,
+    );
+    this.emit('sessionPersisted', {
+      destination,
+      source,
+      durationMs: Date.now() - saveStartedAt,
+    });
+
+    this.rememberToken(
+      destination,
+      connectionConfigWithServiceUrl,
+      servedToken,
+      expiresAt,
     );
+
+    const previousToken =
+      baseConnConfig?.authorizationToken || baseConnConfig?.sessionCookies;
+    const storedToken =
+      connectionConfigWithServiceUrl.authorizationToken ||
+      connectionConfigWithServiceUrl.sessionCookies;
+    if (storedToken !== previousToken) {
+      this.emit(previousToken ? 'tokenRefreshed' : 'tokenIssued', {
+        destination,
+        source,
+        durationMs: this.getFlowDurationMs(destination),
+        tokenType: isSaml ? 'saml' : 'jwt',
+        expiresAt,
+      });
+    }
+    return servedToken;
   }
 
   /**
-   * Get authentication token for destination.
-   * Uses tokenProvider for all authentication operations (browser-based authorization).
-   *
-   * **Flow:**
-   * **Step 0: Initialize Session with Token (if needed)**
-   * - Check if session has `authorizationToken` AND UAA credentials
-   * - If both are empty AND serviceKeyStore is available:
-   *   - Get UAA credentials from service key
-   *   - Use tokenProvider for browser-based authentication
-   *   - Save token and refresh token to session
-   *
+   * Time since the destination's in-flight token flow started, in milliseconds
+   */
+  private getFlowDurationMs(destination: string): number {
+    const startedAt = this.pendingTokenRequests.get(destination)?.startedAt;
+    return startedAt !== undefined ? Date.now() - startedAt : 0;
+  }
+
+  /**
+   * Record token issued for destination: header info, in-memory cache, background refresh,
+   * SAML keep-alive
+   */
+  private rememberToken(
+    destination: string,
+    connConfig: IConnectionConfig,
+    token: string,
+    expiresAt: number | undefined,
+  ): void {
+    this.headerConnectionInfo.set(destination, {
+      authType: connConfig.authType,
+      sapClient: connConfig.sapClient,
+      language: connConfig.language,
+    });
+    if (this.tokenCacheSkewMs !== undefined && expiresAt) {
+      this.tokenCache.set(destination, { token, expiresAt });
+    }
+    if (expiresAt) {
+      this.scheduleBackgroundRefresh(destination, expiresAt);
+    }
+    if (connConfig.authType === 'saml') {
+      this.scheduleSamlKeepAlive(destination);
+    }
+  }
+
+  /**
+   * Schedule background refresh for destination shortly before token expiry
+   */
+  private scheduleBackgroundRefresh(
+    destination: string,
+    expiresAt: number,
+  ): void {
+    if (!this.backgroundRefresh || this.disposed) {
+      return;
+    }
+
+    const { refreshBeforeExpirySeconds, jitterSeconds } =
+      this.backgroundRefresh;
+    const jitterMs = Math.random() * jitterSeconds * 1000;
+    const delay =
+      expiresAt - Date.now() - refreshBeforeExpirySeconds * 1000 - jitterMs;
+
+    const existing = this.refreshTimers.get(destination);
+    if (existing) {
+      clearTimeout(existing);
+      this.refreshTimers.delete(destination);
+    }
+
+    if (delay <= 0) {
+      this.logger?.debug(
+        `Token for ${destination} expires too soon for background refresh, skipping`,
+      );
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      this.refreshTimers.delete(destination);
+      void this.runBackgroundRefresh(destination);
+    }, delay);
+    timer.unref();
+    this.refreshTimers.set(destination, timer);
+    this.logger?.debug(
+      `Background refresh scheduled for ${destination} at ${formatExpirationDate(Date.now() + delay)}`,
+    );
+  }
+
+  /**
+   * Refresh token for destination without interactive auth.
+   * Skips destinations that were not used recently. Failures are logged only:
+   * the next getToken() runs the regular flow.
+   */
+  private async runBackgroundRefresh(destination: string): Promise<void> {
+    if (!this.backgroundRefresh || this.disposed) {
+      return;
+    }
+
+    const lastUsedAt = this.lastUsedAt.get(destination) ?? 0;
+    if (
+      Date.now() - lastUsedAt >
+      this.backgroundRefresh.idleTimeoutSeconds * 1000
+    ) {
+      this.logger?.debug(
+        `Skipping background refresh for idle destination ${destination}`,
+      );
+      return;
+    }
+
+    if (this.pendingTokenRequests.has(destination)) {
+      this.logger?.debug(
+        `Skipping background refresh for ${destination}: request already in flight`,
+      );
+      return;
+    }
+
+    this.logger?.info(`[AuthBroker] Background refresh for ${destination}`);
+    const request = this.startTokenRequest(destination, 'background');
+    request.waiters++;
+    try {
+      await request.promise;
+    } catch (error: any) {
+      this.logger?.warn(
+        `Background refresh failed for ${destination}: ${getErrorMessage(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Schedule next SAML keep-alive ping for destination (keeps an already scheduled one)
+   */
+  private scheduleSamlKeepAlive(destination: string): void {
+    if (
+      !this.samlKeepAlive ||
+      this.disposed ||
+      this.keepAliveTimers.has(destination)
+    ) {
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      this.keepAliveTimers.delete(destination);
+      void this.runSamlKeepAlive(destination);
+    }, this.samlKeepAlive.intervalSeconds * 1000);
+    timer.unref();
+    this.keepAliveTimers.set(destination, timer);
+  }
+
+  /**
+   * Stop SAML keep-alive pings for destination
+   */
+  private stopSamlKeepAlive(destination: string): void {
+    const timer = this.keepAliveTimers.get(destination);
+    if (timer) {
+      clearTimeout(timer);
+      this.keepAliveTimers.delete(destination);
+    }
+  }
+
+  /**
+   * Ping SAML session of destination and schedule the next ping while it is alive.
+   * Idle destinations are not pinged. Failures are logged only.
+   */
+  private async runSamlKeepAlive(destination: string): Promise<void> {
+    if (!this.samlKeepAlive || this.disposed) {
+      return;
+    }
+
+    const lastUsedAt = this.lastUsedAt.get(destination) ?? 0;
+    if (
+      Date.now() - lastUsedAt >
+      this.samlKeepAlive.idleTimeoutSeconds * 1000
+    ) {
+      this.logger?.debug(
+        `Stopping SAML keep-alive for idle destination ${destination}`,
+      );
+      return;
+    }
+
+    let status: SamlSessionStatus;
+    try {
+      status = await this.pingSamlSession(destination);
+    } catch (error: unknown) {
+      this.logger?.warn(
+        `SAML keep-alive failed for ${destination}: ${getErrorMessage(error)}`,
+      );
+      status = 'unreachable';
+    }
+    if (status === 'alive' || status === 'unreachable') {
+      this.scheduleSamlKeepAlive(destination);
+    }
+  }
+
+  /**
+   * Get token from in-memory cache if it has more than the safety margin of validity left
+   */
+  private getCachedToken(destination: string): string | undefined {
+    if (this.tokenCacheSkewMs === undefined) {
+      return undefined;
+    }
+    const cached = this.tokenCache.get(destination);
+    if (!cached) {
+      return undefined;
+    }
+    if (cached.expiresAt - this.tokenCacheSkewMs <= Date.now()) {
+      this.tokenCache.delete(destination);
+      this.logger?.debug(
+        `Cached token for ${destination} is within expiry margin, dropping it`,
+      );
+      return undefined;
+    }
+    return cached.token;
+  }
+
+  /**
+   * Get authentication token for destination.
+   * Uses tokenProvider (or the destination's provider from tokenProviderFactory) for all authentication operations (browser-based authorization).
+   *
+   * **Flow:**
+   * **Step 0: Initialize Session with Token (if needed)**
+   * - Check if session has `authorizationToken` AND UAA credentials
+   * - If both are empty AND serviceKeyStore is available:
+   *   - Get UAA credentials from service key
+   *   - Use tokenProvider for browser-based authentication
+   *   - Save token and refresh token to session
+   *
    * **Step 1: Token Validation**
    * - If token exists in session, validate it (if provider supports validation)
    * - If valid → return token
@@ -556,206 +2032,1856 @@ export class AuthBroker {
    * - All authentication is handled by tokenProvider (e.g., XSUAA provider)
    * - Provider uses browser-based authorization to ensure proper role assignment
    * - Direct UAA HTTP requests are not used to avoid role assignment issues
+   * - Concurrent calls for the same destination are coalesced: all callers await
+   *   one provider call and one session write, and share its result or error
+   * - With `tokenCache` enabled, a still-valid token is returned from memory
+   *   without touching stores or provider
+   * - Basic auth destinations (username/password in session or service key) return
+   *   base64-encoded `username:password` without calling the token provider
+   * - `signal`/`timeoutMs` stop waiting with TokenRequestAbortedError / TokenRequestTimeoutError.
+   *   The provider call is cancelled and nothing is persisted once no other caller
+   *   waits for the same in-flight request
+   * - `requiredScopes` are checked against the JWT `scope` claim; a token lacking them
+   *   triggers one new login without the refresh token (session is only written once it
+   *   succeeds), then InsufficientScopeError. Without browser auth, or when interactive
+   *   auth is denied, InsufficientScopeError is thrown and the session is kept
    *
    * @param destination Destination name (e.g., "TRIAL")
+   * @param options Optional abort signal, timeout and required scopes
    * @returns Promise that resolves to JWT token string
    * @throws Error if session initialization fails or authentication failed
    */
-  async getToken(destination: string): Promise<string> {
-    this.logger?.info(
-      `[AuthBroker] Getting token for destination: ${destination}`,
-    );
-
-    // Load session data
-    const { connConfig, authConfig } = await this.loadSessionData(destination);
-
-    // Get serviceUrl (required)
-    const serviceUrl = await this.getServiceUrl(destination, connConfig);
-
-    // Check if we have token or UAA credentials
-    const sessionToken =
-      connConfig?.authorizationToken || connConfig?.sessionCookies;
-    const hasToken = !!sessionToken;
-    const hasAuthConfig = !!authConfig;
-
-    this.logger?.info(`[AuthBroker] Session check for ${destination}`, {
-      hasToken,
-      hasAuthConfig,
-      hasServiceUrl: !!serviceUrl,
-      serviceUrl,
-      authorizationToken: formatToken(
-        connConfig?.authorizationToken || connConfig?.sessionCookies,
-      ),
-      hasRefreshToken: !!authConfig?.refreshToken,
-      refreshToken: formatToken(authConfig?.refreshToken),
-    });
-
-    // Step 0: Initialize Session with Token (if needed)
-    if (!hasToken && !hasAuthConfig) {
-      if (!this.allowBrowserAuth) {
-        const error = new Error(
-          `Browser authentication required for destination "${destination}" but allowBrowserAuth is disabled. Either enable browser auth or provide a valid session with token.`,
-        ) as Error & { code: string; destination: string };
-        error.code = 'BROWSER_AUTH_REQUIRED';
-        error.destination = destination;
-        this.logger?.error(
-          `Step 0: Browser auth required but disabled for ${destination}`,
-        );
-        throw error;
-      }
-
-      const serviceKeyAuthConfig =
-        await this.getAuthorizationConfigFromServiceKey(destination);
-      const tokenResult = await this.requestTokens(destination, 'serviceKey');
-      await this.persistTokenResult(
-        destination,
-        serviceUrl,
-        connConfig,
-        serviceKeyAuthConfig,
-        tokenResult,
-      );
-
-      this.logger?.info(
-        `[AuthBroker] Token retrieved for ${destination} (initialized from service key)`,
-        {
-          authorizationToken: formatToken(tokenResult.authorizationToken),
-        },
-      );
+  async getToken(
+    destination: string,
+    options: GetTokenOptions = {},
+  ): Promise<string> {
+    this.lastUsedAt.set(destination, Date.now());
 
-      return tokenResult.authorizationToken;
+    const requiredScopes = options.requiredScopes ?? [];
+    const token = await this.acquireToken(destination, options);
+    if (requiredScopes.length === 0) {
+      return token;
     }
 
-    // Step 1: Request tokens via provider (provider handles token lifecycle internally)
-    // Broker always calls provider.getTokens() - provider decides whether to return cached token,
-    // refresh, or perform login. Consumer doesn't need to know about token issues.
-    this.logger?.debug(
-      `Step 1: Requesting tokens via provider for ${destination}`,
+    const missingScopes = this.getMissingTokenScopes(
+      destination,
+      token,
+      requiredScopes,
     );
-
-    let lastError: Error | null = null;
-    if (authConfig) {
-      if (!this.allowBrowserAuth && !authConfig.refreshToken) {
-        const error = new Error(
-          `Browser authentication required for destination "${destination}" but allowBrowserAuth is disabled. Session has no refresh token.`,
-        ) as Error & { code: string; destination: string };
-        error.code = 'BROWSER_AUTH_REQUIRED';
-        error.destination = destination;
-        this.logger?.error(
-          `Step 2: Browser auth required but disabled for ${destination}`,
-        );
-        throw error;
-      }
-      try {
-        const tokenResult = await this.requestTokens(destination, 'session');
-        await this.persistTokenResult(
-          destination,
-          serviceUrl,
-          connConfig,
-          authConfig,
-          tokenResult,
-        );
-        this.logger?.info(
-          `[AuthBroker] Token retrieved for ${destination} (via session)`,
-          {
-            authorizationToken: formatToken(tokenResult.authorizationToken),
-          },
-        );
-        return tokenResult.authorizationToken;
-      } catch (error: any) {
-        lastError = error instanceof Error ? error : new Error(String(error));
-        this.logger?.debug(
-          `Step 2: Token request via session failed for ${destination}: ${getErrorMessage(error)}, trying service key`,
-        );
-      }
+    if (missingScopes.length === 0) {
+      return token;
     }
 
     if (!this.allowBrowserAuth) {
-      const error = new Error(
-        `Browser authentication required for destination "${destination}" but allowBrowserAuth is disabled. Token refresh via session failed and browser auth is not allowed. Either enable browser auth or ensure a valid refresh token exists in session.`,
-      ) as Error & { code: string; destination: string };
-      error.code = 'BROWSER_AUTH_REQUIRED';
-      error.destination = destination;
+      // New login would need interactive auth: keep the working session as is
       this.logger?.error(
-        `Step 2: Browser auth required but disabled for ${destination}`,
+        `Token for ${destination} lacks required scopes ${missingScopes.join(', ')} and browser auth is disabled`,
+      );
+      throw this.createInsufficientScopeError(
+        destination,
+        token,
+        missingScopes,
       );
-      throw error;
     }
 
-    if (!this.serviceKeyStore) {
-      const tokenType = (this.tokenProvider as any)?.tokenType;
-      if (tokenType === 'saml') {
-        const tokenResult = await this.requestTokens(destination, 'session');
-        await this.persistTokenResult(
+    this.logger?.info(
+      `[AuthBroker] Token for ${destination} lacks scopes ${missingScopes.join(', ')}, re-authenticating`,
+    );
+    let request = this.pendingTokenRequests.get(destination);
+    if (request?.kind !== 'relogin') {
+      request = this.startTokenRequest(destination, 'relogin');
+    }
+    let reauthToken: string;
+    try {
+      reauthToken = await this.waitForTokenRequest(
+        destination,
+        request,
+        options,
+      );
+    } catch (error: unknown) {
+      if (error instanceof InteractiveAuthRequiredError) {
+        throw this.createInsufficientScopeError(
           destination,
-          serviceUrl,
-          connConfig,
-          authConfig || ({} as IAuthorizationConfig),
-          tokenResult,
-        );
-        this.logger?.info(
-          `[AuthBroker] Token retrieved for ${destination} (SAML without auth config)`,
-          {
-            authorizationToken: formatToken(tokenResult.authorizationToken),
-          },
+          token,
+          missingScopes,
+          error,
         );
-        return tokenResult.authorizationToken;
-      }
-      if (lastError) {
-        throw lastError;
       }
-      throw new Error(
-        `Authorization config not found for ${destination}. Session has no auth config and serviceKeyStore is not available.`,
-      );
-    }
-
-    // If the session attempt already performed an *interactive* browser login
-    // and it failed (the user didn't complete it / it timed out), the serviceKey
-    // strategy would call the SAME provider.getTokens() again and start a
-    // duplicate browser login on the same redirect port — surfacing a misleading
-    // "Port in use" instead of the real cause. Don't retry interactive failures;
-    // propagate the original error. Transient/non-interactive session failures
-    // still fall through to the serviceKey attempt below.
-    if (lastError && isInteractiveAuthFailure(lastError)) {
-      this.logger?.debug(
-        `Step 2: session login failed interactively for ${destination}; not retrying via service key (${getErrorMessage(lastError)})`,
-      );
-      throw lastError;
+      throw error;
     }
-
-    const serviceKeyAuthConfig =
-      await this.getAuthorizationConfigFromServiceKey(destination);
-    const tokenResult = await this.requestTokens(destination, 'serviceKey');
-    await this.persistTokenResult(
+    const stillMissing = this.getMissingTokenScopes(
       destination,
-      serviceUrl,
-      connConfig,
-      serviceKeyAuthConfig,
-      tokenResult,
+      reauthToken,
+      requiredScopes,
     );
+    if (stillMissing.length > 0) {
+      this.logger?.error(
+        `Token for ${destination} lacks required scopes after re-authentication: ${stillMissing.join(', ')}`,
+      );
+      throw this.createInsufficientScopeError(
+        destination,
+        reauthToken,
+        stillMissing,
+      );
+    }
+    return reauthToken;
+  }
 
-    this.logger?.info(
-      `[AuthBroker] Token retrieved for ${destination} (fallback to service key)`,
+  /**
+   * Error for a token that does not grant required scopes
+   */
+  private createInsufficientScopeError(
+    destination: string,
+    token: string,
+    missingScopes: string[],
+    cause?: unknown,
+  ): InsufficientScopeError {
+    return new InsufficientScopeError(
+      `Token for destination "${destination}" is missing required scopes: ${missingScopes.join(', ')}`,
       {
-        authorizationToken: formatToken(tokenResult.authorizationToken),
+        destination,
+        missingScopes,
+        grantedScopes: getJwtScopes(decodeJwtPayload(token) ?? {}),
+        cause,
       },
     );
-
-    return tokenResult.authorizationToken;
   }
 
   /**
-   * Force refresh token for destination.
-   * Uses refresh token from session if available, otherwise uses UAA credentials from session or service key.
-   * @param destination Destination name (e.g., "TRIAL")
-   * @returns Promise that resolves to new JWT token string
+   * Get required scopes the token does not grant.
+   * Non-JWT tokens (SAML cookies, basic credentials) carry no scopes and are not checked.
    */
-  async refreshToken(destination: string): Promise<string> {
+  private getMissingTokenScopes(
+    destination: string,
+    token: string,
+    requiredScopes: string[],
+  ): string[] {
+    const payload = decodeJwtPayload(token);
+    if (!payload) {
+      this.logger?.warn(
+        `Cannot check required scopes for ${destination}: token is not a JWT`,
+      );
+      return [];
+    }
+    return getMissingScopes(getJwtScopes(payload), requiredScopes);
+  }
+
+  /**
+   * Get token from cache or the (shared) token flow
+   */
+  private async acquireToken(
+    destination: string,
+    options: GetTokenOptions,
+  ): Promise<string> {
+    if (options.signal?.aborted) {
+      throw this.createAbortedError(destination, options.signal);
+    }
+
+    const cachedToken = this.getCachedToken(destination);
+    if (cachedToken) {
+      this.logger?.debug(`Token served from cache for ${destination}`);
+      const expiresAt = this.tokenCache.get(destination)?.expiresAt ?? 0;
+      this.emit('tokenServedFromCache', {
+        destination,
+        expiresAt,
+        remainingSeconds: Math.floor((expiresAt - Date.now()) / 1000),
+      });
+      return cachedToken;
+    }
+
+    let request = this.pendingTokenRequests.get(destination);
+    if (request?.kind === 'background' && this.allowBrowserAuth) {
+      // Background refresh never logs in interactively: if it fails, run the regular flow
+      this.logger?.debug(
+        `Waiting for background refresh of destination: ${destination}`,
+      );
+      try {
+        return await this.waitForTokenRequest(destination, request, options);
+      } catch (error: unknown) {
+        if (
+          error instanceof TokenRequestAbortedError ||
+          error instanceof TokenRequestTimeoutError
+        ) {
+          throw error;
+        }
+        this.logger?.debug(
+          `Background refresh of ${destination} failed, starting token flow: ${getErrorMessage(error)}`,
+        );
+      }
+      request = this.pendingTokenRequests.get(destination);
+    }
+
+    if (request) {
+      this.logger?.debug(
+        `Joining in-flight token request for destination: ${destination}`,
+      );
+    } else {
+      request = this.startTokenRequest(destination);
+    }
+    return this.waitForTokenRequest(destination, request, options);
+  }
+
+  /**
+   * Start the token flow for destination and register it for coalescing
+   * @param kind Background flows are non-interactive and emit no lifecycle failure events
+   */
+  private startTokenRequest(
+    destination: string,
+    kind: TokenFlowKind = 'regular',
+  ): PendingTokenRequest {
+    const controller = new AbortController();
+    const startedAt = Date.now();
+    const flow = (
+      this.refreshLock
+        ? this.resolveTokenWithLock(destination, kind, controller.signal)
+        : this.runTokenFlow(destination, kind, controller.signal)
+    ).catch((error: unknown) => {
+      // Flow nobody waits for any more is not an auth failure; background
+      // failures are logged by runBackgroundRefresh()
+      if (!controller.signal.aborted && kind !== 'background') {
+        this.reportFlowFailure(destination, error, Date.now() - startedAt);
+      }
+      throw error;
+    });
+    const request: PendingTokenRequest = {
+      promise: flow.finally(() => {
+        if (this.pendingTokenRequests.get(destination) === request) {
+          this.pendingTokenRequests.delete(destination);
+        }
+      }),
+      controller,
+      waiters: 0,
+      startedAt,
+      kind,
+    };
+    this.pendingTokenRequests.set(destination, request);
+    return request;
+  }
+
+  /**
+   * Run token flow of the given kind (without refresh lock)
+   */
+  private runTokenFlow(
+    destination: string,
+    kind: TokenFlowKind,
+    signal: AbortSignal,
+  ): Promise<string> {
+    if (kind === 'relogin') {
+      return this.resolveReloginToken(destination, signal);
+    }
+    return this.resolveToken(
+      destination,
+      kind === 'regular' && this.allowBrowserAuth,
+      signal,
+    );
+  }
+
+  /**
+   * Emit `interactiveAuthRequired` (when applicable) and `authFailed` for a failed token flow
+   */
+  private reportFlowFailure(
+    destination: string,
+    error: unknown,
+    durationMs: number,
+  ): void {
+    const flowError = error instanceof Error ? error : new Error(String(error));
+    if (flowError instanceof InteractiveAuthRequiredError) {
+      this.emit('interactiveAuthRequired', {
+        destination,
+        error: flowError,
+        durationMs,
+      });
+    }
+    this.emit('authFailed', { destination, error: flowError, durationMs });
+  }
+
+  /**
+   * Wait for a shared token request on behalf of one caller.
+   * When the caller aborts or times out it stops waiting; the last caller to leave
+   * aborts the underlying flow so a late result is not persisted.
+   */
+  private async waitForTokenRequest(
+    destination: string,
+    request: PendingTokenRequest,
+    options: GetTokenOptions,
+  ): Promise<string> {
+    request.waiters++;
+    const { signal, timeoutMs } = options;
+    if (!signal && timeoutMs === undefined) {
+      return request.promise;
+    }
+
+    const controller = new AbortController();
+    const onAbort = () =>
+      controller.abort(this.createAbortedError(destination, signal));
+    signal?.addEventListener('abort', onAbort, { once: true });
+    const timer =
+      timeoutMs !== undefined
+        ? setTimeout(
+            () =>
+              controller.abort(
+                new TokenRequestTimeoutError(
+                  `Token request for ${destination} timed out after ${timeoutMs}ms`,
+                  { destination, timeoutMs },
+                ),
+              ),
+            timeoutMs,
+          )
+        : undefined;
+
+    try {
+      return await raceWithSignal(request.promise, controller.signal);
+    } catch (error: any) {
+      if (controller.signal.aborted) {
+        request.waiters--;
+        this.logger?.debug(
+          `Stopped waiting for token request for ${destination}: ${getErrorMessage(error)}`,
+        );
+        if (request.waiters === 0) {
+          request.controller.abort(error);
+          if (this.pendingTokenRequests.get(destination) === request) {
+            this.pendingTokenRequests.delete(destination);
+          }
+        }
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  /**
+   * Error for a caller whose signal aborted
+   */
+  private createAbortedError(
+    destination: string,
+    signal?: AbortSignal,
+  ): TokenRequestAbortedError {
+    return new TokenRequestAbortedError(
+      `Token request for ${destination} was aborted`,
+      { destination, cause: signal?.reason },
+    );
+  }
+
+  /**
+   * Run the getToken flow under the destination's cross-process refresh lock.
+   * If another process refreshed the session while we waited for the lock, its token
+   * is used as is and no provider is called.
+   */
+  private async resolveTokenWithLock(
+    destination: string,
+    kind: TokenFlowKind,
+    signal: AbortSignal,
+  ): Promise<string> {
+    const lockOptions = this.refreshLock ?? DEFAULT_REFRESH_LOCK;
+    const { connConfig: before } = await this.loadSessionData(destination);
+    const lockPath = path.join(
+      lockOptions.lockDir,
+      `${destination.replace(/[^A-Za-z0-9._-]/g, '_')}.lock`,
+    );
+
+    let release: () => Promise<void>;
+    try {
+      release = await acquireFileLock(lockPath, lockOptions, signal);
+    } catch (error: any) {
+      if (error?.code !== 'ELOCKTIMEOUT') {
+        throw error;
+      }
+      this.logger?.warn(
+        `Refresh lock for ${destination} not acquired: ${getErrorMessage(error)}`,
+      );
+      throw new RefreshLockTimeoutError(
+        `Timed out after ${lockOptions.acquireTimeoutMs}ms waiting for refresh lock of destination "${destination}" (${lockPath})`,
+        { destination, lockPath, cause: error },
+      );
+    }
+
+    try {
+      // Another process's refresh grant returns the same scopes: a new login still needs to run
+      const refreshed =
+        kind !== 'relogin'
+          ? await this.takeRefreshedSessionToken(
+              destination,
+              before?.authorizationToken,
+            )
+          : undefined;
+      if (refreshed) {
+        return refreshed;
+      }
+      return await this.runTokenFlow(destination, kind, signal);
+    } finally {
+      await release();
+    }
+  }
+
+  /**
+   * Take token that another process saved to session since previousToken was read.
+   * Only JWTs that are still valid beyond the expiry margin are taken.
+   * @returns Token, or undefined if session was not refreshed by another process
+   */
+  private async takeRefreshedSessionToken(
+    destination: string,
+    previousToken: string | undefined,
+  ): Promise<string | undefined> {
+    const { connConfig } = await this.loadSessionData(destination);
+    const token = connConfig?.authorizationToken;
+    if (!connConfig || !token || token === previousToken) {
+      return undefined;
+    }
+    const exp = decodeJwtPayload(token)?.exp;
+    const skewMs =
+      this.tokenCacheSkewMs ?? DEFAULT_TOKEN_CACHE_SKEW_SECONDS * 1000;
+    if (typeof exp !== 'number' || exp * 1000 - skewMs <= Date.now()) {
+      return undefined;
+    }
+
+    // Provider built from the old session may hold a refresh token the other process rotated
+    this.tokenProviders.delete(destination);
+    this.rememberToken(destination, connConfig, token, exp * 1000);
+    this.logger?.info(
+      `[AuthBroker] Token for ${destination} was refreshed by another process, using it from session`,
+      {
+        authorizationToken: formatToken(token),
+        expiresAt: formatExpirationDate(exp * 1000),
+      },
+    );
+    return token;
+  }
+
+  /**
+   * Session JWT to serve when refreshing failed because the identity provider is unreachable
+   * (staleTokenFallback). Logs a warning and emits `staleTokenServed`.
+   * @returns Token, or undefined if fallback is disabled, error is not network-class,
+   *          or token is not a JWT with enough validity left
+   */
+  private getStaleSessionToken(
+    destination: string,
+    connConfig: IConnectionConfig | null,
+    error: Error,
+  ): string | undefined {
+    if (!this.staleTokenFallback || !isNetworkClassError(error)) {
+      return undefined;
+    }
+    const token = connConfig?.authorizationToken;
+    const exp = token ? decodeJwtPayload(token)?.exp : undefined;
+    if (!connConfig || !token || typeof exp !== 'number') {
+      return undefined;
+    }
+    const expiresAt = exp * 1000;
+    const remainingSeconds = Math.floor((expiresAt - Date.now()) / 1000);
+    if (remainingSeconds <= this.staleTokenFallback.minRemainingSeconds) {
+      return undefined;
+    }
+
+    this.headerConnectionInfo.set(destination, {
+      authType: connConfig.authType,
+      sapClient: connConfig.sapClient,
+      language: connConfig.language,
+    });
+    this.logger?.warn(
+      `[AuthBroker] Identity provider unreachable for ${destination} (${error.code}), serving session token valid for ${remainingSeconds}s`,
+      {
+        authorizationToken: formatToken(token),
+        expiresAt: formatExpirationDate(expiresAt),
+      },
+    );
+    this.emit('staleTokenServed', {
+      destination,
+      expiresAt,
+      remainingSeconds,
+      error,
+    });
+    return token;
+  }
+
+  /**
+   * Run the getToken flow (Step 0 / Step 1 / service key fallback) for destination.
+   * Callers go through getToken() so concurrent requests share one run.
+   * @param allowBrowserAuth When false, fails with BROWSER_AUTH_REQUIRED instead of interactive auth
+   */
+  private async resolveToken(
+    destination: string,
+    allowBrowserAuth: boolean,
+    signal?: AbortSignal,
+  ): Promise<string> {
+    this.logger?.info(
+      `[AuthBroker] Getting token for destination: ${destination}`,
+    );
+
+    // Load session data
+    const { connConfig, authConfig } = await this.loadSessionData(destination);
+
+    // Get serviceUrl (required)
+    const serviceUrl = await this.getServiceUrl(destination, connConfig);
+
+    // Check if we have token or UAA credentials
+    const sessionToken =
+      connConfig?.authorizationToken || connConfig?.sessionCookies;
+    const hasToken = !!sessionToken;
+    const hasAuthConfig = !!authConfig;
+
+    // Basic auth: credentials come from session or service key, no token provider roundtrip
+    const basicCredentials = await this.getBasicCredentials(
+      destination,
+      connConfig,
+      hasToken || hasAuthConfig,
+    );
+    if (basicCredentials) {
+      this.headerConnectionInfo.set(destination, {
+        authType: 'basic',
+        sapClient: connConfig?.sapClient,
+        language: connConfig?.language,
+      });
+      return basicCredentials;
+    }
+
+    this.logger?.info(`[AuthBroker] Session check for ${destination}`, {
+      hasToken,
+      hasAuthConfig,
+      hasServiceUrl: !!serviceUrl,
+      serviceUrl,
+      authorizationToken: formatToken(
+        connConfig?.authorizationToken || connConfig?.sessionCookies,
+      ),
+      hasRefreshToken: !!authConfig?.refreshToken,
+      refreshToken: formatToken(authConfig?.refreshToken),
+    });
+
+    // Step 0: Initialize Session with Token (if needed)
+    if (!hasToken && !hasAuthConfig) {
+      if (!allowBrowserAuth) {
+        const error = new InteractiveAuthRequiredError(
+          `Browser authentication required for destination "${destination}" but allowBrowserAuth is disabled. Either enable browser auth or provide a valid session with token.`,
+          { destination },
+        );
+        this.logger?.error(
+          `Step 0: Browser auth required but disabled for ${destination}`,
+        );
+        throw error;
+      }
+
+      const serviceKeyAuthConfig =
+        await this.getAuthorizationConfigFromServiceKey(destination);
+      const provider = await this.getTokenProvider(
+        destination,
+        serviceKeyAuthConfig,
+        connConfig,
+      );
+      const tokenResult = await this.requestTokens(
+        destination,
+        'serviceKey',
+        provider,
+        false,
+        signal,
+      );
+      const token = await this.persistTokenResult(
+        destination,
+        serviceUrl,
+        connConfig,
+        serviceKeyAuthConfig,
+        tokenResult,
+        'serviceKey',
+        signal,
+      );
+
+      this.logger?.info(
+        `[AuthBroker] Token retrieved for ${destination} (initialized from service key)`,
+        {
+          authorizationToken: formatToken(tokenResult.authorizationToken),
+        },
+      );
+
+      return token;
+    }
+
+    // Step 1: Request tokens via provider (provider handles token lifecycle internally)
+    // Broker always calls provider.getTokens() - provider decides whether to return cached token,
+    // refresh, or perform login. Consumer doesn't need to know about token issues.
+    this.logger?.debug(
+      `Step 1: Requesting tokens via provider for ${destination}`,
+    );
+
+    let lastError: Error | null = null;
+    if (authConfig) {
+      if (!allowBrowserAuth && !authConfig.refreshToken) {
+        const error = new InteractiveAuthRequiredError(
+          `Browser authentication required for destination "${destination}" but allowBrowserAuth is disabled. Session has no refresh token.`,
+          { destination },
+        );
+        this.logger?.error(
+          `Step 2: Browser auth required but disabled for ${destination}`,
+        );
+        throw error;
+      }
+      try {
+        const provider = await this.getTokenProvider(
+          destination,
+          authConfig,
+          connConfig,
+        );
+        const tokenResult = await this.requestTokens(
+          destination,
+          'session',
+          provider,
+          !!authConfig.refreshToken,
+          signal,
+          allowBrowserAuth,
+        );
+        const token = await this.persistTokenResult(
+          destination,
+          serviceUrl,
+          connConfig,
+          authConfig,
+          tokenResult,
+          'session',
+          signal,
+        );
+        this.logger?.info(
+          `[AuthBroker] Token retrieved for ${destination} (via session)`,
+          {
+            authorizationToken: formatToken(tokenResult.authorizationToken),
+          },
+        );
+        return token;
+      } catch (error: any) {
+        lastError = error instanceof Error ? error : new Error(String(error));
+        const staleToken = this.getStaleSessionToken(
+          destination,
+          connConfig,
+          lastError,
+        );
+        if (staleToken) {
+          return staleToken;
+        }
+        if (
+          lastError instanceof CircuitOpenError ||
+          lastError instanceof InteractiveAuthRequiredError ||
+          signal?.aborted
+        ) {
+          // Service key fallback would hit the same open circuit or denial, or nobody waits for it
+          throw lastError;
+        }
+        this.logger?.debug(
+          `Step 2: Token request via session failed for ${destination}: ${getErrorMessage(error)}, trying service key`,
+        );
+      }
+    }
+
+    if (!allowBrowserAuth) {
+      const error = new InteractiveAuthRequiredError(
+        `Browser authentication required for destination "${destination}" but allowBrowserAuth is disabled. Token refresh via session failed and browser auth is not allowed. Either enable browser auth or ensure a valid refresh token exists in session.`,
+        { destination, cause: lastError ?? undefined },
+      );
+      this.logger?.error(
+        `Step 2: Browser auth required but disabled for ${destination}`,
+      );
+      throw error;
+    }
+
+    if (!this.serviceKeyStore) {
+      const samlAuthConfig = authConfig || ({} as IAuthorizationConfig);
+      let provider: ITokenProvider | undefined;
+      try {
+        provider = await this.getTokenProvider(
+          destination,
+          samlAuthConfig,
+          connConfig,
+        );
+      } catch (error: any) {
+        this.logger?.debug(
+          `No token provider for ${destination} without auth config: ${getErrorMessage(error)}`,
+        );
+      }
+      if (hasTokenType(provider) && provider.tokenType === 'saml') {
+        const tokenResult = await this.requestTokens(
+          destination,
+          'session',
+          provider,
+          false,
+          signal,
+        );
+        const token = await this.persistTokenResult(
+          destination,
+          serviceUrl,
+          connConfig,
+          samlAuthConfig,
+          tokenResult,
+          'session',
+          signal,
+        );
+        this.logger?.info(
+          `[AuthBroker] Token retrieved for ${destination} (SAML without auth config)`,
+          {
+            authorizationToken: formatToken(tokenResult.authorizationToken),
+          },
+        );
+        return token;
+      }
+      if (lastError) {
+        throw lastError;
+      }
+      throw new ConfigMissingError(
+        `Authorization config not found for ${destination}. Session has no auth config and serviceKeyStore is not available.`,
+        { destination },
+      );
+    }
+
+    // If the session attempt already performed an *interactive* browser login
+    // and it failed (the user didn't complete it / it timed out), the serviceKey
+    // strategy would call the SAME provider.getTokens() again and start a
+    // duplicate browser login on the same redirect port — surfacing a misleading
+    // "Port in use" instead of the real cause. Don't retry interactive failures;
+    // propagate the original error. Transient/non-interactive session failures
+    // still fall through to the serviceKey attempt below.
+    if (lastError && isInteractiveAuthFailure(lastError)) {
+      this.logger?.debug(
+        `Step 2: session login failed interactively for ${destination}; not retrying via service key (${getErrorMessage(lastError)})`,
+      );
+      throw lastError;
+    }
+
+    const serviceKeyAuthConfig =
+      await this.getAuthorizationConfigFromServiceKey(destination);
+    // Cached provider was built from the session auth config that just failed
+    this.tokenProviders.delete(destination);
+    const provider = await this.getTokenProvider(
+      destination,
+      serviceKeyAuthConfig,
+      connConfig,
+    );
+    const tokenResult = await this.requestTokens(
+      destination,
+      'serviceKey',
+      provider,
+      false,
+      signal,
+    );
+    const token = await this.persistTokenResult(
+      destination,
+      serviceUrl,
+      connConfig,
+      serviceKeyAuthConfig,
+      tokenResult,
+      'serviceKey',
+      signal,
+    );
+
+    this.logger?.info(
+      `[AuthBroker] Token retrieved for ${destination} (fallback to service key)`,
+      {
+        authorizationToken: formatToken(tokenResult.authorizationToken),
+      },
+    );
+
+    return token;
+  }
+
+  /**
+   * New login for a token that lacks required scopes. A refresh grant returns the same
+   * scopes, so the provider gets the auth config without refresh token; the session is
+   * only written once the login succeeded. A shared tokenProvider is used as is and may
+   * still refresh from its own state.
+   */
+  private async resolveReloginToken(
+    destination: string,
+    signal: AbortSignal,
+  ): Promise<string> {
+    const { connConfig, authConfig: sessionAuthConfig } =
+      await this.loadSessionData(destination);
+    const serviceUrl = await this.getServiceUrl(destination, connConfig);
+    const source: TokenSource = sessionAuthConfig ? 'session' : 'serviceKey';
+    const authConfig: IAuthorizationConfig = {
+      ...(sessionAuthConfig ??
+        (await this.getAuthorizationConfigFromServiceKey(destination))),
+      refreshToken: undefined,
+    };
+
+    // Cached provider may hold the refresh token: build a new one, cache it once it logged in
+    const provider = this.tokenProviderFactory
+      ? await this.createTokenProvider(destination, authConfig, connConfig)
+      : await this.getTokenProvider(destination, authConfig, connConfig);
+    const tokenResult = await this.requestTokens(
+      destination,
+      source,
+      provider,
+      false,
+      signal,
+    );
+    const token = await this.persistTokenResult(
+      destination,
+      serviceUrl,
+      connConfig,
+      authConfig,
+      tokenResult,
+      source,
+      signal,
+    );
+    if (this.tokenProviderFactory) {
+      this.tokenProviders.set(destination, provider);
+    }
+    this.logger?.info(
+      `[AuthBroker] Token retrieved for ${destination} (new login for required scopes)`,
+      {
+        authorizationToken: formatToken(tokenResult.authorizationToken),
+      },
+    );
+    return token;
+  }
+
+  /**
+   * Force refresh token for destination.
+   * Uses refresh token from session if available, otherwise uses UAA credentials from session or service key.
+   * @param destination Destination name (e.g., "TRIAL")
+   * @param options Optional abort signal and timeout (see getToken)
+   * @returns Promise that resolves to new JWT token string
+   */
+  async refreshToken(
+    destination: string,
+    options: GetTokenOptions = {},
+  ): Promise<string> {
+    this.logger?.debug(
+      `Force refreshing token for destination: ${destination}`,
+    );
+
+    // Drop cached token and call getToken to trigger full refresh flow
+    this.invalidate(destination);
+    return this.getToken(destination, options);
+  }
+
+  /**
+   * Get HTTP headers for destination, ready to send to the ABAP system.
+   * Token is obtained via getToken(); header shape depends on the stored auth type:
+   * - `jwt` → `Authorization: Bearer <token>`
+   * - `saml` → `Cookie: <session cookies>`
+   * - `basic` → `Authorization: Basic <base64 credentials>`
+   *
+   * `sap-client` and `sap-language` headers are added when the session defines them.
+   * With `csrf: true`, `x-csrf-token` is added (fetched lazily, see getCsrfToken()) and the
+   * session cookies it is bound to are merged into `Cookie`.
+   * @param destination Destination name (e.g., "TRIAL")
+   * @param options Header options
+   * @returns Promise that resolves to headers object
+   * @throws CsrfTokenError if `csrf` is set and the system does not issue a CSRF token
+   */
+  async getAuthHeaders(
+    destination: string,
+    options: AuthHeadersOptions = {},
+  ): Promise<AuthHeaders> {
+    let headers = await this.buildAuthHeaders(destination);
+    if (!options.csrf) {
+      return headers;
+    }
+
+    let session: CsrfSession;
+    try {
+      session = await this.getCsrfSession(destination, headers);
+    } catch (error: unknown) {
+      if (!(error instanceof CsrfTokenError) || error.status !== 401) {
+        throw error;
+      }
+      // ABAP system rejected the token before broker considered it expired: re-acquire once
+      this.logger?.debug(
+        `CSRF fetch for ${destination} returned 401, refreshing token`,
+      );
+      await this.refreshToken(destination);
+      headers = await this.buildAuthHeaders(destination);
+      session = await this.getCsrfSession(destination, headers);
+    }
+
+    headers['x-csrf-token'] = session.token;
+    if (Object.keys(session.cookies).length > 0) {
+      headers.Cookie = mergeCookieHeader(headers.Cookie, session.cookies);
+    }
+    return headers;
+  }
+
+  /**
+   * Build auth headers (without CSRF token) for destination
+   */
+  private async buildAuthHeaders(destination: string): Promise<AuthHeaders> {
+    const token = await this.getToken(destination);
+
+    let info = this.headerConnectionInfo.get(destination);
+    if (!info) {
+      const { connConfig } = await this.loadSessionData(destination);
+      info = {
+        authType:
+          connConfig?.authType ??
+          (connConfig?.sessionCookies && !connConfig.authorizationToken
+            ? 'saml'
+            : 'jwt'),
+        sapClient: connConfig?.sapClient,
+        language: connConfig?.language,
+      };
+    }
+
+    let headers: AuthHeaders;
+    if (info.authType === 'saml') {
+      headers = { Cookie: token };
+    } else if (info.authType === 'basic') {
+      headers = { Authorization: `Basic ${token}` };
+    } else {
+      headers = { Authorization: `Bearer ${token}` };
+    }
+    if (info.sapClient) {
+      headers['sap-client'] = info.sapClient;
+    }
+    if (info.language) {
+      headers['sap-language'] = info.language;
+    }
+
+    this.logger?.debug(
+      `Auth headers built for ${destination}: ${Object.keys(headers).join(', ')}`,
+    );
+    return headers;
+  }
+
+  /**
+   * Merge `Set-Cookie` headers of an ABAP response (e.g. renewed `SAP_SESSIONID_*` or
+   * `MYSAPSSO2`) into the destination's SAML session cookies and save the session.
+   * Cookies are matched against the request URL (default: serviceUrl); expired ones are removed.
+   * Sessions without `sessionCookies` (JWT, basic) are left unchanged.
+   * @param destination Destination name (e.g., "TRIAL")
+   * @param setCookieHeaders `Set-Cookie` header values, one per cookie
+   * @param requestUrl URL of the request the response belongs to (optional, default: serviceUrl)
+   * @returns Names of cookies that were set or removed
+   * @throws StoreWriteError if the session store fails to save the cookies
+   */
+  async mergeSessionCookies(
+    destination: string,
+    setCookieHeaders: string | string[],
+    requestUrl?: string,
+  ): Promise<string[]> {
+    const { connConfig } = await this.loadSessionData(destination);
+    if (!connConfig?.sessionCookies) {
+      this.logger?.debug(
+        `No session cookies for ${destination}, response cookies not merged`,
+      );
+      return [];
+    }
+    const serviceUrl = await this.getServiceUrl(destination, connConfig);
+    const cookieJar = CookieJar.fromSession(connConfig);
+    const changed = cookieJar.setCookies(
+      setCookieHeaders,
+      requestUrl ?? serviceUrl,
+    );
+    if (changed.length === 0) {
+      return [];
+    }
+
+    try {
+      await this.sessionStore.setConnectionConfig(destination, {
+        ...connConfig,
+        ...cookieJar.toSession(),
+      });
+    } catch (error: unknown) {
+      this.logger?.error(
+        `Failed to save session cookies for ${destination}: ${getErrorMessage(error)}`,
+      );
+      throw new StoreWriteError(
+        `Failed to save session cookies for destination "${destination}": ${getErrorMessage(error)}`,
+        { destination, cause: error },
+      );
+    }
+
+    const cached = this.tokenCache.get(destination);
+    if (cached) {
+      cached.token = cookieJar.getCookieHeader(serviceUrl);
+    }
+    this.logger?.debug(
+      `Session cookies merged for ${destination}: ${changed.join(', ')}`,
+    );
+    return changed;
+  }
+
+  /**
+   * Check whether the destination's SAML session is still accepted by the ABAP system, with a
+   * `GET` against `serviceUrl` + `samlKeepAlive.path` (default: `/sap/bc/adt/core/discovery`)
+   * that does not follow redirects. Keeps the session alive on the server side and merges
+   * renewed cookies. A redirect to the identity provider login, a login page or 401 means
+   * the session expired: its cookies are cleared from the session store, cached token and
+   * CSRF token are dropped, `samlSessionExpired` is emitted and the next getToken()
+   * re-authenticates. Used by the samlKeepAlive timer; works without it.
+   * @param destination Destination name (e.g., "TRIAL")
+   * @returns Promise that resolves to session status
+   * @throws StoreWriteError if the session store fails to save the cleared or merged cookies
+   */
+  async pingSamlSession(destination: string): Promise<SamlSessionStatus> {
+    const { connConfig } = await this.loadSessionData(destination);
+    if (!connConfig?.sessionCookies) {
+      this.logger?.debug(`No SAML session cookies for ${destination} to ping`);
+      return 'none';
+    }
+    const serviceUrl = await this.getServiceUrl(destination, connConfig);
+    const { path, timeoutMs } = this.samlKeepAlive ?? DEFAULT_SAML_KEEP_ALIVE;
+    const url = `${serviceUrl.replace(/\/+$/, '')}${path}`;
+
+    const cookieHeader = CookieJar.fromSession(connConfig).getCookieHeader(url);
+    if (!cookieHeader) {
+      return (await this.expireSamlSession(destination, connConfig, {
+        reason: 'session cookies expired',
+      }))
+        ? 'expired'
+        : 'alive';
+    }
+
+    const headers: Record<string, string> = { Cookie: cookieHeader };
+    if (connConfig.sapClient) {
+      headers['sap-client'] = connConfig.sapClient;
+    }
+    let result: SessionPingResult;
+    try {
+      result = await requestSessionPing(url, headers, timeoutMs);
+    } catch (error: unknown) {
+      this.logger?.warn(
+        `SAML session ping for ${destination} to ${url} failed: ${getErrorMessage(error)}`,
+      );
+      return 'unreachable';
+    }
+
+    if (result.expiredReason) {
+      return (await this.expireSamlSession(destination, connConfig, {
+        reason: result.expiredReason,
+        status: result.status,
+        location: result.location,
+      }))
+        ? 'expired'
+        : 'alive';
+    }
+    if (result.setCookie.length > 0) {
+      await this.mergeSessionCookies(destination, result.setCookie, url);
+    }
+    this.logger?.debug(
+      `SAML session for ${destination} is alive (HTTP ${result.status})`,
+    );
+    return 'alive';
+  }
+
+  /**
+   * Clear expired SAML session so the next getToken() re-authenticates
+   * @returns false if the session got new cookies meanwhile (e.g. a concurrent login) and was kept
+   */
+  private async expireSamlSession(
+    destination: string,
+    connConfig: IConnectionConfig,
+    details: Omit<SamlSessionExpiredEvent, 'destination' | 'timestamp'>,
+  ): Promise<boolean> {
+    const { connConfig: current } = await this.loadSessionData(destination);
+    if (current?.sessionCookies !== connConfig.sessionCookies) {
+      this.logger?.debug(
+        `SAML session for ${destination} was renewed during ping, keeping it`,
+      );
+      return false;
+    }
+
+    this.logger?.warn(
+      `[AuthBroker] SAML session for ${destination} expired (${details.reason}), clearing session cookies`,
+    );
+    this.stopSamlKeepAlive(destination);
+    this.invalidate(destination);
+    this.tokenProviders.delete(destination);
+    this.csrfSessions.delete(destination);
+    this.pendingCsrfFetches.delete(destination);
+
+    const clearedConnConfig: IConnectionConfig & StoredSessionCookies = {
+      ...connConfig,
+      sessionCookies: undefined,
+      sessionCookieAttributes: undefined,
+    };
+    try {
+      await this.sessionStore.setConnectionConfig(
+        destination,
+        clearedConnConfig,
+      );
+    } catch (error: unknown) {
+      this.logger?.error(
+        `Failed to clear expired session cookies for ${destination}: ${getErrorMessage(error)}`,
+      );
+      throw new StoreWriteError(
+        `Failed to clear expired session cookies for destination "${destination}": ${getErrorMessage(error)}`,
+        { destination, cause: error },
+      );
+    }
+    // Only announce once cleared: listeners may re-authenticate right away
+    this.emit('samlSessionExpired', { destination, ...details });
+    return true;
+  }
+
+  /**
+   * Get SAP ADT CSRF token for destination, needed (with the ADT session cookies it is
+   * bound to) for modifying requests. Fetched lazily with a `GET` (`X-CSRF-Token: Fetch`)
+   * against `serviceUrl` + `csrf.path` and cached until the auth token changes or
+   * invalidateCsrfToken() is called. Use getAuthHeaders(destination, { csrf: true }) to get
+   * the token together with the cookies.
+   * @param destination Destination name (e.g., "TRIAL")
+   * @returns Promise that resolves to CSRF token
+   * @throws CsrfTokenError if the system does not issue a CSRF token
+   */
+  async getCsrfToken(destination: string): Promise<string> {
+    const headers = await this.getAuthHeaders(destination, { csrf: true });
+    return headers['x-csrf-token'];
+  }
+
+  /**
+   * Drop cached CSRF token for destination, e.g. after `403 CSRF token validation failed`.
+   * Next getCsrfToken() / getAuthHeaders(destination, { csrf: true }) fetches a new one.
+   * @param destination Destination name (e.g., "TRIAL")
+   * @param token Token that was rejected (optional). If given, the cached token is only
+   * dropped if it is still this one, so concurrent failures cause a single refetch.
+   */
+  invalidateCsrfToken(destination: string, token?: string): void {
+    const session = this.csrfSessions.get(destination);
+    if (!session || (token !== undefined && session.token !== token)) {
+      return;
+    }
+    this.csrfSessions.delete(destination);
+    this.logger?.debug(`CSRF token invalidated for ${destination}`);
+  }
+
+  /**
+   * Cached CSRF session for destination, fetched if missing or fetched with other credentials.
+   * Concurrent callers with the same credentials share one fetch; a fetch superseded by one
+   * with newer credentials is not cached.
+   */
+  private async getCsrfSession(
+    destination: string,
+    authHeaders: AuthHeaders,
+  ): Promise<CsrfSession> {
+    const credential = authHeaders.Authorization ?? authHeaders.Cookie;
+    const cached = this.csrfSessions.get(destination);
+    if (cached && cached.credential === credential) {
+      return cached;
+    }
+
+    const existing = this.pendingCsrfFetches.get(destination);
+    if (existing && existing.credential === credential) {
+      return existing.promise;
+    }
+
+    const pending: PendingCsrfFetch = {
+      credential,
+      promise: this.fetchCsrfSession(destination, authHeaders)
+        .then((session) => {
+          if (this.pendingCsrfFetches.get(destination) === pending) {
+            this.csrfSessions.set(destination, session);
+          }
+          return session;
+        })
+        .finally(() => {
+          if (this.pendingCsrfFetches.get(destination) === pending) {
+            this.pendingCsrfFetches.delete(destination);
+          }
+        }),
+    };
+    this.pendingCsrfFetches.set(destination, pending);
+    return pending.promise;
+  }
+
+  /**
+   * Fetch CSRF token from the ABAP system
+   */
+  private async fetchCsrfSession(
+    destination: string,
+    authHeaders: AuthHeaders,
+  ): Promise<CsrfSession> {
+    const { connConfig } = await this.loadSessionData(destination);
+    const serviceUrl = await this.getServiceUrl(destination, connConfig);
+    const url = `${serviceUrl.replace(/\/+$/, '')}${this.csrfOptions.path}`;
+
+    let result: CsrfFetchResult;
+    try {
+      result = await requestCsrfToken(
+        url,
+        authHeaders,
+        this.csrfOptions.timeoutMs,
+      );
+    } catch (error: unknown) {
+      throw new CsrfTokenError(
+        `Failed to fetch CSRF token for ${destination} from ${url}: ${getErrorMessage(error)}`,
+        { destination, cause: error, retryable: true },
+      );
+    }
+    if (!result.token) {
+      throw new CsrfTokenError(
+        `${url} returned HTTP ${result.status} without CSRF token for ${destination}`,
+        {
+          destination,
+          status: result.status,
+          retryable: result.status >= 500,
+        },
+      );
+    }
+
+    const session: CsrfSession = {
+      token: result.token,
+      cookies: result.cookies,
+      credential: authHeaders.Authorization ?? authHeaders.Cookie,
+    };
     this.logger?.debug(
-      `Force refreshing token for destination: ${destination}`,
+      `CSRF token fetched for ${destination}${Object.keys(result.cookies).length > 0 ? ` with cookies: ${Object.keys(result.cookies).join(', ')}` : ''}`,
+    );
+    return session;
+  }
+
+  /**
+   * Describe the token stored for destination, for diagnostics (e.g. "why does ADT return 403").
+   * Decodes the session JWT without verifying it; SAML cookie sessions report cookie names
+   * and, when known, expiry. Does not call the token provider and never returns the token.
+   * @param destination Destination name (e.g., "TRIAL")
+   * @returns Promise that resolves to token info
+   */
+  async getTokenInfo(destination: string): Promise<TokenInfo> {
+    const { connConfig, authConfig } = await this.loadSessionData(destination);
+    const info = this.describeSessionToken(destination, connConfig, authConfig);
+    this.logger?.debug(
+      `Token info for ${destination}: ${info.tokenType}${info.expiresAt ? `, expires ${formatExpirationDate(info.expiresAt)}` : ''}`,
+    );
+    return info;
+  }
+
+  /**
+   * Build token info from loaded session data
+   */
+  private describeSessionToken(
+    destination: string,
+    connConfig: IConnectionConfig | null,
+    authConfig: IAuthorizationConfig | null,
+  ): TokenInfo {
+    const info: TokenInfo = {
+      destination,
+      tokenType: 'none',
+      hasRefreshToken: !!authConfig?.refreshToken,
+    };
+    // Only tokens issued by this broker instance have a known expiresIn
+    let expiresAt = this.tokenCache.get(destination)?.expiresAt;
+
+    if (connConfig?.authorizationToken) {
+      const payload = decodeJwtPayload(connConfig.authorizationToken);
+      if (payload) {
+        info.tokenType = 'jwt';
+        info.issuer = payload.iss;
+        info.subject = payload.sub;
+        info.userName = payload.user_name;
+        info.email = payload.email;
+        info.clientId = payload.client_id ?? payload.cid ?? payload.azp;
+        info.zoneId = payload.zid;
+        info.tenant = payload.ext_attr?.zdn ?? payload.tid;
+        info.scopes = getJwtScopes(payload);
+        if (payload.aud !== undefined) {
+          info.audience = Array.isArray(payload.aud)
+            ? payload.aud
+            : [payload.aud];
+        }
+        if (typeof payload.iat === 'number') {
+          info.issuedAt = payload.iat * 1000;
+        }
+        if (typeof payload.exp === 'number') {
+          expiresAt = payload.exp * 1000;
+        }
+      } else {
+        info.tokenType = 'opaque';
+      }
+    } else if (connConfig?.sessionCookies) {
+      info.tokenType = 'saml';
+      info.userName = connConfig.username;
+      const cookieJar = CookieJar.fromSession(connConfig);
+      info.cookieNames = cookieJar.getCookies().map((cookie) => cookie.name);
+      expiresAt ??= cookieJar.getExpiresAt();
+    } else if (hasBasicCredentials(connConfig)) {
+      info.tokenType = 'basic';
+      info.userName = connConfig.username;
+    }
+
+    if (expiresAt !== undefined && info.tokenType !== 'basic') {
+      info.expiresAt = expiresAt;
+      info.remainingSeconds = Math.floor((expiresAt - Date.now()) / 1000);
+    }
+    return info;
+  }
+
+  /**
+   * List destinations known to the session store and service key store.
+   * Stores opt in by implementing `list()` (IListableStore); stores without it contribute
+   * no names. Status is read from the stores without calling the token provider.
+   * @returns Promise that resolves to destination statuses, sorted by name
+   */
+  async listDestinations(): Promise<DestinationStatus[]> {
+    const sessionDestinations = await this.listStore(
+      this.sessionStore,
+      'session store',
+    );
+    const serviceKeyDestinations = this.serviceKeyStore
+      ? await this.listStore(this.serviceKeyStore, 'service key store')
+      : [];
+    const names = [
+      ...new Set([...sessionDestinations, ...serviceKeyDestinations]),
+    ].sort();
+
+    const statuses: DestinationStatus[] = [];
+    for (const destination of names) {
+      const { connConfig, authConfig } =
+        await this.loadSessionData(destination);
+      const info = this.describeSessionToken(
+        destination,
+        connConfig,
+        authConfig,
+      );
+      statuses.push({
+        destination,
+        hasServiceKey:
+          serviceKeyDestinations.includes(destination) ||
+          (await this.hasServiceKey(destination)),
+        hasSession: !!connConfig || !!authConfig,
+        authType: info.tokenType,
+        tokenExpiresAt: info.expiresAt,
+        hasRefreshToken: info.hasRefreshToken,
+      });
+    }
+
+    this.logger?.debug(
+      `Listed ${statuses.length} destinations: ${names.join(', ')}`,
+    );
+    return statuses;
+  }
+
+  /**
+   * Explain which getToken() path would run for destination, without calling the provider.
+   * Evaluates the same decisions as getToken() (cache, basic auth, Step 0, Step 1 session,
+   * SAML without auth config, service key fallback) against current store contents.
+   * @param destination Destination name (e.g., "TRIAL")
+   * @returns Promise that resolves to the planned path, value sources and expected error
+   */
+  async explainToken(destination: string): Promise<TokenExplanation> {
+    const explanation: TokenExplanation = {
+      destination,
+      plannedPath: [],
+      sources: {},
+      interactiveAuthRequired: false,
+      allowBrowserAuth: this.allowBrowserAuth,
+    };
+    const { plannedPath, sources } = explanation;
+    const plan = (step: TokenPathStep, interactive: boolean, reason: string) =>
+      plannedPath.push({ step, interactive, reason });
+    const finish = (expectedError?: AuthBrokerError) => {
+      if (expectedError) {
+        explanation.expectedError = {
+          code: expectedError.code,
+          message: expectedError.message,
+        };
+      }
+      explanation.interactiveAuthRequired =
+        plannedPath[0]?.interactive ?? false;
+      this.logger?.debug(
+        `Token path for ${destination}: ${plannedPath.map((planned) => planned.step).join(' -> ') || 'none'}${expectedError ? ` (${expectedError.code})` : ''}`,
+      );
+      return explanation;
+    };
+    const browserAuthRequired = (reason: string) =>
+      new InteractiveAuthRequiredError(
+        `Browser authentication required for destination "${destination}" but allowBrowserAuth is disabled. ${reason}`,
+        { destination },
+      );
+
+    const cached =
+      this.tokenCacheSkewMs !== undefined
+        ? this.tokenCache.get(destination)
+        : undefined;
+    if (
+      cached &&
+      cached.expiresAt - (this.tokenCacheSkewMs ?? 0) > Date.now()
+    ) {
+      sources.token = 'cache';
+      plan('cache', false, 'Token cache holds a token that is still valid');
+      return finish();
+    }
+    if (this.pendingTokenRequests.has(destination)) {
+      plan('inFlight', false, 'A token request for the destination is running');
+      return finish();
+    }
+
+    const { connConfig, authConfig } = await this.loadSessionData(destination);
+    try {
+      await this.getServiceUrl(destination, connConfig);
+      sources.serviceUrl = connConfig?.serviceUrl ? 'session' : 'serviceKey';
+    } catch (error: any) {
+      return finish(this.toExpectedError(destination, error));
+    }
+
+    const hasToken = !!(
+      connConfig?.authorizationToken || connConfig?.sessionCookies
+    );
+    const hasAuthConfig = !!authConfig;
+    if (hasToken) {
+      sources.token = 'session';
+    }
+    if (hasAuthConfig) {
+      sources.authConfig = 'session';
+    }
+    if (authConfig?.refreshToken) {
+      sources.refreshToken = 'session';
+    }
+
+    if (hasBasicCredentials(connConfig)) {
+      sources.basicCredentials = 'session';
+    } else if (!hasToken && !hasAuthConfig && this.serviceKeyStore) {
+      try {
+        const serviceKeyConnConfig =
+          await this.serviceKeyStore.getConnectionConfig(destination);
+        if (hasBasicCredentials(serviceKeyConnConfig)) {
+          sources.basicCredentials = 'serviceKey';
+        }
+      } catch {
+        // No basic credentials in service key
+      }
+    }
+    if (sources.basicCredentials) {
+      plan(
+        'basic',
+        false,
+        `Username and password found in ${sources.basicCredentials}; token provider is not called`,
+      );
+      return finish();
+    }
+
+    const circuit = this.getCircuitState(destination);
+    if (circuit?.state === 'open') {
+      return finish(
+        new CircuitOpenError(
+          `Token provider circuit breaker is open for ${destination} after repeated failures`,
+          { destination, retryAt: circuit.retryAt },
+        ),
+      );
+    }
+
+    // Step 0
+    if (!hasToken && !hasAuthConfig) {
+      if (!this.allowBrowserAuth) {
+        return finish(
+          browserAuthRequired(
+            'Either enable browser auth or provide a valid session with token.',
+          ),
+        );
+      }
+      try {
+        await this.getAuthorizationConfigFromServiceKey(destination);
+      } catch (error: any) {
+        return finish(this.toExpectedError(destination, error));
+      }
+      sources.authConfig = 'serviceKey';
+      plan(
+        'serviceKeyInit',
+        true,
+        'Session has no token and no auth config: provider obtains tokens with service key auth config',
+      );
+      return finish();
+    }
+
+    // Step 1
+    if (authConfig) {
+      if (!this.allowBrowserAuth && !authConfig.refreshToken) {
+        return finish(browserAuthRequired('Session has no refresh token.'));
+      }
+      plan(
+        'session',
+        !authConfig.refreshToken,
+        authConfig.refreshToken
+          ? 'Session has auth config with refresh token: provider refreshes without user interaction'
+          : 'Session has auth config without refresh token: provider performs a new login',
+      );
+    }
+
+    // Fallbacks after the session step
+    if (!this.allowBrowserAuth) {
+      return finish(
+        plannedPath.length === 0
+          ? browserAuthRequired('Session has a token but no auth config.')
+          : undefined,
+      );
+    }
+
+    if (!this.serviceKeyStore) {
+      const provider =
+        this.tokenProviders.get(destination) ?? this.tokenProvider;
+      const tokenType = hasTokenType(provider) ? provider.tokenType : undefined;
+      if (tokenType === 'saml' || (!provider && this.tokenProviderFactory)) {
+        plan(
+          'samlSession',
+          true,
+          tokenType === 'saml'
+            ? 'No service key store: SAML provider is called without auth config'
+            : 'No service key store: provider from tokenProviderFactory is called without auth config if it is a SAML provider',
+        );
+        return finish();
+      }
+      return finish(
+        plannedPath.length === 0
+          ? new ConfigMissingError(
+              `Authorization config not found for ${destination}. Session has no auth config and serviceKeyStore is not available.`,
+              { destination },
+            )
+          : undefined,
+      );
+    }
+
+    try {
+      await this.getAuthorizationConfigFromServiceKey(destination);
+    } catch (error: any) {
+      return finish(
+        plannedPath.length === 0
+          ? this.toExpectedError(destination, error)
+          : undefined,
+      );
+    }
+    sources.authConfig ??= 'serviceKey';
+    plan(
+      'serviceKeyFallback',
+      true,
+      plannedPath.length === 0
+        ? 'Session has a token but no auth config: provider obtains tokens with service key auth config'
+        : 'If the session step fails non-interactively: provider obtains tokens with service key auth config',
+    );
+    return finish();
+  }
+
+  /**
+   * Convert error from a store lookup into the typed error getToken() would throw
+   */
+  private toExpectedError(
+    destination: string,
+    error: unknown,
+  ): AuthBrokerError {
+    return error instanceof AuthBrokerError
+      ? error
+      : new ConfigMissingError(getErrorMessage(error), {
+          destination,
+          cause: error,
+        });
+  }
+
+  /**
+   * Get destination names from store if it implements list(); failures are logged
+   */
+  private async listStore(
+    store: ISessionStore | IServiceKeyStore,
+    storeLabel: string,
+  ): Promise<string[]> {
+    const list = (store as Partial<IListableStore>).list;
+    if (typeof list !== 'function') {
+      this.logger?.debug(`${storeLabel} does not support list()`);
+      return [];
+    }
+    try {
+      const destinations = await list.call(store);
+      return Array.isArray(destinations) ? destinations : [];
+    } catch (error: any) {
+      this.logger?.warn(
+        `Failed to list destinations from ${storeLabel}: ${getErrorMessage(error)}`,
+      );
+      return [];
+    }
+  }
+
+  /**
+   * Whether service key store has a service key for destination (false on errors)
+   */
+  private async hasServiceKey(destination: string): Promise<boolean> {
+    if (!this.serviceKeyStore) {
+      return false;
+    }
+    try {
+      return !!(await this.serviceKeyStore.getServiceKey(destination));
+    } catch (error: any) {
+      this.logger?.debug(
+        `Service key lookup failed for ${destination}: ${getErrorMessage(error)}`,
+      );
+      return false;
+    }
+  }
+
+  /**
+   * Sign out of destination.
+   * Clears `authorizationToken`, `sessionCookies` and `refreshToken` from the session store
+   * (serviceUrl and UAA client config are kept), optionally revokes the refresh token at the
+   * identity provider first, and drops in-memory state: cached token, background refresh,
+   * in-flight request and the provider built by tokenProviderFactory. A shared tokenProvider
+   * is kept: its `clearTokens()` is called if it has one, otherwise tokens it caches in memory
+   * may be returned (and stored again) by the next getToken(); use tokenProviderFactory then.
+   * Revocation failures are logged and reported in the result; the session is cleared anyway.
+   * @param destination Destination name (e.g., "TRIAL")
+   * @param options Revocation options
+   * @returns Promise that resolves to logout result
+   * @throws StoreWriteError if the session store fails to save the cleared session
+   */
+  async logout(
+    destination: string,
+    options: LogoutOptions = {},
+  ): Promise<LogoutResult> {
+    this.logger?.info(`[AuthBroker] Logging out of ${destination}`);
+
+    const pending = this.pendingTokenRequests.get(destination);
+    if (pending) {
+      this.pendingTokenRequests.delete(destination);
+      pending.controller.abort(
+        new TokenRequestAbortedError(
+          `Token request for ${destination} was aborted by logout`,
+          { destination },
+        ),
+      );
+    }
+    this.invalidate(destination);
+    const timer = this.refreshTimers.get(destination);
+    if (timer) {
+      clearTimeout(timer);
+      this.refreshTimers.delete(destination);
+    }
+    this.stopSamlKeepAlive(destination);
+    this.lastUsedAt.delete(destination);
+    this.headerConnectionInfo.delete(destination);
+    this.tokenProviders.delete(destination);
+    this.csrfSessions.delete(destination);
+    this.pendingCsrfFetches.delete(destination);
+    await this.clearSharedProviderTokens(destination);
+
+    const { connConfig, authConfig } = await this.loadSessionData(destination);
+    const result: LogoutResult = { sessionCleared: false, revoked: false };
+
+    if (options.revoke && authConfig?.refreshToken) {
+      try {
+        await revokeRefreshToken(
+          authConfig,
+          authConfig.refreshToken,
+          connConfig?.authorizationToken,
+          options.revocationUrl,
+        );
+        result.revoked = true;
+        this.logger?.info(
+          `[AuthBroker] Refresh token revoked for ${destination}`,
+        );
+      } catch (error: any) {
+        result.revocationError =
+          error instanceof Error ? error : new Error(String(error));
+        this.logger?.warn(
+          `Failed to revoke refresh token for ${destination}: ${getErrorMessage(error)}`,
+        );
+      }
+    } else if (options.revoke) {
+      this.logger?.debug(
+        `No refresh token to revoke for ${destination}, skipping revocation`,
+      );
+    }
+
+    result.sessionCleared = await this.clearSessionCredentials(
+      destination,
+      connConfig,
+      authConfig,
+    );
+
+    this.logger?.info(`[AuthBroker] Logged out of ${destination}`, {
+      sessionCleared: result.sessionCleared,
+      revoked: result.revoked,
+    });
+    return result;
+  }
+
+  /**
+   * Drop tokens the shared tokenProvider keeps in memory on logout (providers built by
+   * tokenProviderFactory are discarded instead). Failures are logged, not thrown.
+   */
+  private async clearSharedProviderTokens(destination: string): Promise<void> {
+    if (this.tokenProviderFactory || !this.tokenProvider) {
+      return;
+    }
+    if (!hasClearTokens(this.tokenProvider)) {
+      this.logger?.warn(
+        `Shared tokenProvider has no clearTokens(): tokens it keeps in memory may be used for ${destination} after logout (use tokenProviderFactory)`,
+      );
+      return;
+    }
+    try {
+      await this.tokenProvider.clearTokens();
+    } catch (error: any) {
+      this.logger?.warn(
+        `Failed to clear tokenProvider tokens for ${destination}: ${getErrorMessage(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Remove access token, session cookies and refresh token from session, keeping serviceUrl
+   * and client config. Unlike saveTokenToSession(), the authorization config is written
+   * whenever it holds a refresh token (also for public clients without uaaClientSecret).
+   * @returns Whether the session held credentials that were cleared
+   * @throws StoreWriteError if the session store fails to save the cleared session
+   */
+  private async clearSessionCredentials(
+    destination: string,
+    connConfig: IConnectionConfig | null,
+    authConfig: IAuthorizationConfig | null,
+  ): Promise<boolean> {
+    const clearedConnConfig =
+      connConfig?.authorizationToken || connConfig?.sessionCookies
+        ? {
+            ...connConfig,
+            authorizationToken: undefined,
+            sessionCookies: undefined,
+            sessionCookieAttributes: undefined,
+          }
+        : undefined;
+    const clearedAuthConfig = authConfig?.refreshToken
+      ? { ...authConfig, refreshToken: undefined }
+      : undefined;
+    if (!clearedConnConfig && !clearedAuthConfig) {
+      return false;
+    }
+
+    const setSession = (
+      this.sessionStore as Partial<ITransactionalSessionStore>
+    ).setSession;
+    try {
+      if (typeof setSession === 'function' && connConfig) {
+        await setSession.call(
+          this.sessionStore,
+          destination,
+          clearedConnConfig ?? connConfig,
+          clearedAuthConfig,
+        );
+      } else {
+        if (clearedConnConfig) {
+          await this.sessionStore.setConnectionConfig(
+            destination,
+            clearedConnConfig,
+          );
+        }
+        if (clearedAuthConfig) {
+          await this.sessionStore.setAuthorizationConfig(
+            destination,
+            clearedAuthConfig,
+          );
+        }
+      }
+    } catch (error: unknown) {
+      this.logger?.error(
+        `Failed to clear session for ${destination}: ${getErrorMessage(error)}`,
+      );
+      throw new StoreWriteError(
+        `Failed to clear session for destination "${destination}": ${getErrorMessage(error)}`,
+        { destination, cause: error },
+      );
+    }
+    return true;
+  }
+
+  /**
+   * Drop cached token for destination.
+   * Next getToken() call goes through stores and provider again.
+   * @param destination Destination name (e.g., "TRIAL")
+   */
+  invalidate(destination: string): void {
+    if (this.tokenCache.delete(destination)) {
+      this.logger?.debug(`Token cache invalidated for ${destination}`);
+    }
+  }
+
+  /**
+   * Drop cached tokens for all destinations.
+   */
+  clearCache(): void {
+    this.tokenCache.clear();
+    this.logger?.debug('Token cache cleared');
+  }
+
+  /**
+   * Stop background refresh and SAML keep-alive timers.
+   * The broker stays usable for getToken(), but no further refreshes or pings are scheduled.
+   */
+  dispose(): void {
+    this.disposed = true;
+    for (const timer of [
+      ...this.refreshTimers.values(),
+      ...this.keepAliveTimers.values(),
+    ]) {
+      clearTimeout(timer);
+    }
+    this.refreshTimers.clear();
+    this.keepAliveTimers.clear();
+    this.logger?.debug(
+      '[AuthBroker] Disposed, background refresh and SAML keep-alive stopped',
     );
+  }
+
+  /**
+   * Subscribe to broker event
+   * @param event Event name (e.g., "tokenRefreshed")
+   * @param listener Called synchronously with the event payload; errors it throws are logged and ignored
+   */
+  on<E extends AuthBrokerEventName>(
+    event: E,
+    listener: AuthBrokerEventListener<E>,
+  ): this {
+    const listenerSets: { [K in E]?: Set<AuthBrokerEventListener<K>> } =
+      this.eventListeners;
+    let listeners = listenerSets[event];
+    if (!listeners) {
+      listeners = new Set();
+      listenerSets[event] = listeners;
+    }
+    listeners.add(listener);
+    return this;
+  }
+
+  /**
+   * Unsubscribe listener registered with on()
+   */
+  off<E extends AuthBrokerEventName>(
+    event: E,
+    listener: AuthBrokerEventListener<E>,
+  ): this {
+    this.eventListeners[event]?.delete(listener);
+    return this;
+  }
+
+  /**
+   * Call listeners of event; a failing listener does not affect the token flow
+   */
+  private emit<E extends AuthBrokerEventName>(
+    event: E,
+    payload: Omit<AuthBrokerEvents[E], 'timestamp'>,
+  ): void {
+    const listeners = this.eventListeners[event];
+    if (!listeners?.size) {
+      return;
+    }
+    const eventPayload = {
+      ...payload,
+      timestamp: Date.now(),
+    } as AuthBrokerEvents[E];
+    for (const listener of listeners) {
+      try {
+        listener(eventPayload);
+      } catch (error: any) {
+        this.logger?.warn(
+          `[AuthBroker] ${event} listener failed: ${getErrorMessage(error)}`,
+        );
+      }
+    }
+  }
 
-    // Call getToken to trigger full refresh flow
-    return this.getToken(destination);
+  /**
+   * Get circuit breaker state for destination (for diagnostics).
+   * @param destination Destination name (e.g., "TRIAL")
+   * @returns Circuit breaker state, or null if circuitBreaker is not enabled
+   */
+  getCircuitState(destination: string): CircuitBreakerState | null {
+    if (!this.circuitBreakerOptions) {
+      return null;
+    }
+    return (
+      this.circuitBreakers.get(destination)?.getState() ?? {
+        state: 'closed',
+        consecutiveFailures: 0,
+      }
+    );
   }
 
   /**
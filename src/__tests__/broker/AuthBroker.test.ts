@@ -4,9 +4,33 @@
  * Tests use mocked implementations of interfaces, not real store/provider classes.
  */
 
+import { promises as fs } from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
 import type { ILogger } from '@mcp-abap-adt/interfaces';
-import { AuthBroker } from '../../AuthBroker';
-import type { ITokenProvider, ITokenResult } from '../../providers';
+import axios from 'axios';
+import { AuthBroker, type InteractiveAuthRequest } from '../../AuthBroker';
+import {
+  AUTH_BROKER_ERROR_CODES,
+  AuthBrokerError,
+  CircuitOpenError,
+  ConfigMissingError,
+  CsrfTokenError,
+  InsufficientScopeError,
+  InteractiveAuthRequiredError,
+  NetworkError,
+  RefreshLockTimeoutError,
+  StoreWriteError,
+  TokenProviderError,
+  TokenRequestAbortedError,
+  TokenRequestTimeoutError,
+  ValidationError,
+} from '../../errors';
+import type {
+  ITokenProvider,
+  ITokenResult,
+  TokenRequestOptions,
+} from '../../providers';
 import type {
   IAuthorizationConfig,
   IConnectionConfig,
@@ -14,13 +38,23 @@ import type {
   ISessionStore,
 } from '../../stores/interfaces';
 import type { IConfig } from '../../types';
+import { CookieJar } from '../../utils/cookieJar';
 import { createTestLogger } from '../helpers/testLogger';
 
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
 type MockTokenProvider = jest.Mocked<ITokenProvider> & {
   getTokens: jest.Mock;
   validateToken: jest.Mock;
 };
 
+// Unsigned JWT with given payload (broker only decodes, never verifies)
+const encodeJwtPart = (value: object) =>
+  Buffer.from(JSON.stringify(value)).toString('base64url');
+const jwt = (payload: object) =>
+  `${encodeJwtPart({ alg: 'RS256' })}.${encodeJwtPart(payload)}.signature`;
+
 // No-op logger for tests that expect errors (to avoid misleading error output)
 const noOpLogger: ILogger = {
   info: () => {},
@@ -1041,6 +1075,3143 @@ describe('AuthBroker', () => {
     });
   });
 
+  describe('concurrent getToken calls', () => {
+    const connConfig: IConnectionConfig = {
+      serviceUrl: 'https://test.sap.com',
+      authorizationToken: 'old-token',
+    };
+    const authConfig: IAuthorizationConfig = {
+      uaaUrl: 'https://uaa.test.com',
+      uaaClientId: 'client123',
+      uaaClientSecret: 'secret123',
+      refreshToken: 'refresh-token-123',
+    };
+
+    beforeEach(() => {
+      mockSessionStore.getConnectionConfig.mockResolvedValue(connConfig);
+      mockSessionStore.getAuthorizationConfig.mockResolvedValue(authConfig);
+      mockSessionStore.setConnectionConfig.mockResolvedValue(undefined);
+      mockSessionStore.setAuthorizationConfig.mockResolvedValue(undefined);
+    });
+
+    it('should coalesce concurrent requests for the same destination', async () => {
+      let resolveTokens: (result: ITokenResult) => void = () => {};
+      mockTokenProvider.getTokens.mockReturnValue(
+        new Promise<ITokenResult>((resolve) => {
+          resolveTokens = resolve;
+        }),
+      );
+
+      const requests = [
+        broker.getToken('TEST'),
+        broker.getToken('TEST'),
+        broker.refreshToken('TEST'),
+      ];
+      // Let the first request reach provider.getTokens()
+      await new Promise((resolve) => setImmediate(resolve));
+      resolveTokens({
+        authorizationToken: 'new-token',
+        authType: 'authorization_code',
+      });
+
+      expect(await Promise.all(requests)).toEqual([
+        'new-token',
+        'new-token',
+        'new-token',
+      ]);
+      expect(mockTokenProvider.getTokens).toHaveBeenCalledTimes(1);
+      expect(mockSessionStore.getConnectionConfig).toHaveBeenCalledTimes(1);
+      expect(mockSessionStore.setConnectionConfig).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fan out errors to every waiting caller', async () => {
+      const errorBroker = new AuthBroker(
+        {
+          sessionStore: mockSessionStore,
+          tokenProvider: mockTokenProvider,
+        },
+        undefined,
+        noOpLogger,
+      );
+      mockTokenProvider.getTokens.mockRejectedValue(new Error('UAA down'));
+
+      const results = await Promise.allSettled([
+        errorBroker.getToken('TEST'),
+        errorBroker.getToken('TEST'),
+      ]);
+
+      expect(results.map((r) => r.status)).toEqual(['rejected', 'rejected']);
+      expect((results[0] as PromiseRejectedResult).reason).toBe(
+        (results[1] as PromiseRejectedResult).reason,
+      );
+      expect(mockTokenProvider.getTokens).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not coalesce different destinations or sequential calls', async () => {
+      mockTokenProvider.getTokens.mockResolvedValue({
+        authorizationToken: 'new-token',
+        authType: 'authorization_code',
+      });
+
+      await Promise.all([broker.getToken('DEST1'), broker.getToken('DEST2')]);
+      await broker.getToken('DEST1');
+
+      expect(mockTokenProvider.getTokens).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('tokenCache', () => {
+    const connConfig: IConnectionConfig = {
+      serviceUrl: 'https://test.sap.com',
+      authorizationToken: 'old-token',
+    };
+    const authConfig: IAuthorizationConfig = {
+      uaaUrl: 'https://uaa.test.com',
+      uaaClientId: 'client123',
+      uaaClientSecret: 'secret123',
+      refreshToken: 'refresh-token-123',
+    };
+    let cachingBroker: AuthBroker;
+
+    beforeEach(() => {
+      mockSessionStore.getConnectionConfig.mockResolvedValue(connConfig);
+      mockSessionStore.getAuthorizationConfig.mockResolvedValue(authConfig);
+      mockSessionStore.setConnectionConfig.mockResolvedValue(undefined);
+      mockSessionStore.setAuthorizationConfig.mockResolvedValue(undefined);
+      cachingBroker = new AuthBroker(
+        {
+          sessionStore: mockSessionStore,
+          tokenProvider: mockTokenProvider,
+          tokenCache: { expirySkewSeconds: 60 },
+        },
+        undefined,
+        logger,
+      );
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should serve token from cache without touching stores or provider', async () => {
+      mockTokenProvider.getTokens.mockResolvedValue({
+        authorizationToken: 'cached-token',
+        authType: 'authorization_code',
+        expiresIn: 3600,
+      });
+
+      expect(await cachingBroker.getToken('TEST')).toBe('cached-token');
+      expect(await cachingBroker.getToken('TEST')).toBe('cached-token');
+
+      expect(mockTokenProvider.getTokens).toHaveBeenCalledTimes(1);
+      expect(mockSessionStore.getConnectionConfig).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not serve token within the expiry safety margin', async () => {
+      jest.useFakeTimers({ now: 1_000_000 });
+      mockTokenProvider.getTokens.mockResolvedValue({
+        authorizationToken: 'short-token',
+        authType: 'authorization_code',
+        expiresIn: 120,
+      });
+
+      await cachingBroker.getToken('TEST');
+      jest.setSystemTime(1_000_000 + 61_000);
+      await cachingBroker.getToken('TEST');
+
+      expect(mockTokenProvider.getTokens).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not cache tokens without expiresIn', async () => {
+      mockTokenProvider.getTokens.mockResolvedValue({
+        authorizationToken: 'token',
+        authType: 'authorization_code',
+      });
+
+      await cachingBroker.getToken('TEST');
+      await cachingBroker.getToken('TEST');
+
+      expect(mockTokenProvider.getTokens).toHaveBeenCalledTimes(2);
+    });
+
+    it('should bypass cache after invalidate, clearCache and refreshToken', async () => {
+      mockTokenProvider.getTokens.mockResolvedValue({
+        authorizationToken: 'cached-token',
+        authType: 'authorization_code',
+        expiresIn: 3600,
+      });
+
+      await cachingBroker.getToken('TEST');
+      cachingBroker.invalidate('TEST');
+      await cachingBroker.getToken('TEST');
+      cachingBroker.clearCache();
+      await cachingBroker.getToken('TEST');
+      await cachingBroker.refreshToken('TEST');
+
+      expect(mockTokenProvider.getTokens).toHaveBeenCalledTimes(4);
+    });
+
+    it('should not cache when tokenCache is not enabled', async () => {
+      mockTokenProvider.getTokens.mockResolvedValue({
+        authorizationToken: 'token',
+        authType: 'authorization_code',
+        expiresIn: 3600,
+      });
+
+      await broker.getToken('TEST');
+      await broker.getToken('TEST');
+
+      expect(mockTokenProvider.getTokens).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('backgroundRefresh', () => {
+    const connConfig: IConnectionConfig = {
+      serviceUrl: 'https://test.sap.com',
+      authorizationToken: 'old-token',
+    };
+    const authConfig: IAuthorizationConfig = {
+      uaaUrl: 'https://uaa.test.com',
+      uaaClientId: 'client123',
+      uaaClientSecret: 'secret123',
+      refreshToken: 'refresh-token-123',
+    };
+    let refreshingBroker: AuthBroker;
+
+    // Let the refresh started by a fired timer run to completion
+    const flushRefresh = () => new Promise((resolve) => setImmediate(resolve));
+
+    beforeEach(() => {
+      jest.useFakeTimers({ doNotFake: ['setImmediate', 'nextTick'] });
+      mockSessionStore.getConnectionConfig.mockResolvedValue(connConfig);
+      mockSessionStore.getAuthorizationConfig.mockResolvedValue(authConfig);
+      mockSessionStore.setConnectionConfig.mockResolvedValue(undefined);
+      mockSessionStore.setAuthorizationConfig.mockResolvedValue(undefined);
+      mockTokenProvider.getTokens.mockResolvedValue({
+        authorizationToken: 'token',
+        authType: 'authorization_code',
+        expiresIn: 300,
+      });
+      refreshingBroker = new AuthBroker(
+        {
+          sessionStore: mockSessionStore,
+          tokenProvider: mockTokenProvider,
+          backgroundRefresh: {
+            refreshBeforeExpirySeconds: 60,
+            jitterSeconds: 0,
+            idleTimeoutSeconds: 600,
+          },
+        },
+        undefined,
+        noOpLogger,
+      );
+    });
+
+    afterEach(() => {
+      refreshingBroker.dispose();
+      jest.useRealTimers();
+    });
+
+    it('should refresh token shortly before expiry', async () => {
+      await refreshingBroker.getToken('TEST');
+      expect(mockTokenProvider.getTokens).toHaveBeenCalledTimes(1);
+
+      await jest.advanceTimersByTimeAsync(239_000);
+      expect(mockTokenProvider.getTokens).toHaveBeenCalledTimes(1);
+
+      await jest.advanceTimersByTimeAsync(1_000);
+      await flushRefresh();
+      expect(mockTokenProvider.getTokens).toHaveBeenCalledTimes(2);
+      expect(mockSessionStore.setConnectionConfig).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not refresh idle destinations', async () => {
+      const idleBroker = new AuthBroker(
+        {
+          sessionStore: mockSessionStore,
+          tokenProvider: mockTokenProvider,
+          backgroundRefresh: {
+            refreshBeforeExpirySeconds: 60,
+            jitterSeconds: 0,
+            idleTimeoutSeconds: 30,
+          },
+        },
+        undefined,
+        noOpLogger,
+      );
+
+      await idleBroker.getToken('TEST');
+      await jest.advanceTimersByTimeAsync(240_000);
+
+      expect(mockTokenProvider.getTokens).toHaveBeenCalledTimes(1);
+      idleBroker.dispose();
+    });
+
+    it('should never trigger interactive auth when session has no refresh token', async () => {
+      await refreshingBroker.getToken('TEST');
+      mockSessionStore.getAuthorizationConfig.mockResolvedValue({
+        ...authConfig,
+        refreshToken: undefined,
+      });
+
+      await jest.advanceTimersByTimeAsync(240_000);
+
+      expect(mockTokenProvider.getTokens).toHaveBeenCalledTimes(1);
+    });
+
+    it('should deny interactive auth requested by provider during background refresh', async () => {
+      await refreshingBroker.getToken('TEST');
+      const answers: string[] = [];
+      mockTokenProvider.getTokens.mockImplementationOnce(
+        async (options: TokenRequestOptions) => {
+          // Refresh grant failed: provider asks before falling back to browser login
+          const answer = await options.onInteractiveAuth?.({
+            authorizationUrl: 'https://uaa.test.com/oauth/authorize?x=1',
+          });
+          answers.push(answer ?? 'none');
+          return {
+            authorizationToken: 'browser-token',
+            authType: 'authorization_code',
+            expiresIn: 300,
+          };
+        },
+      );
+
+      await jest.advanceTimersByTimeAsync(240_000);
+      await flushRefresh();
+
+      expect(answers).toEqual(['deny']);
+      expect(mockSessionStore.setConnectionConfig).toHaveBeenCalledTimes(1);
+    });
+
+    it('should start interactive flow for getToken() joining a failed background refresh', async () => {
+      const onFailed = jest.fn();
+      refreshingBroker.on('authFailed', onFailed);
+      await refreshingBroker.getToken('TEST');
+      let rejectRefresh: (error: Error) => void = () => {};
+      mockTokenProvider.getTokens
+        .mockImplementationOnce(
+          () =>
+            new Promise((_resolve, reject) => {
+              rejectRefresh = reject;
+            }),
+        )
+        .mockResolvedValueOnce({
+          authorizationToken: 'interactive-token',
+          authType: 'authorization_code',
+          expiresIn: 300,
+        });
+
+      await jest.advanceTimersByTimeAsync(240_000);
+      expect(mockTokenProvider.getTokens).toHaveBeenCalledTimes(2);
+      const foreground = refreshingBroker.getToken('TEST');
+      rejectRefresh(new Error('invalid_grant'));
+
+      await expect(foreground).resolves.toBe('interactive-token');
+      expect(mockTokenProvider.getTokens).toHaveBeenCalledTimes(3);
+      expect(onFailed).not.toHaveBeenCalled();
+    });
+
+    it('should stop timers on dispose', async () => {
+      await refreshingBroker.getToken('TEST');
+      refreshingBroker.dispose();
+
+      await jest.advanceTimersByTimeAsync(600_000);
+
+      expect(mockTokenProvider.getTokens).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('getAuthHeaders', () => {
+    const authConfig: IAuthorizationConfig = {
+      uaaUrl: 'https://uaa.test.com',
+      uaaClientId: 'client123',
+      uaaClientSecret: 'secret123',
+      refreshToken: 'refresh-token-123',
+    };
+
+    beforeEach(() => {
+      mockSessionStore.getAuthorizationConfig.mockResolvedValue(authConfig);
+      mockSessionStore.setConnectionConfig.mockResolvedValue(undefined);
+      mockSessionStore.setAuthorizationConfig.mockResolvedValue(undefined);
+    });
+
+    it('should return Bearer header for JWT tokens', async () => {
+      mockSessionStore.getConnectionConfig.mockResolvedValue({
+        serviceUrl: 'https://test.sap.com',
+        authorizationToken: 'old-token',
+        sapClient: '100',
+        language: 'EN',
+      });
+      mockTokenProvider.getTokens.mockResolvedValue({
+        authorizationToken: 'jwt-token',
+        authType: 'authorization_code',
+      });
+
+      const headers = await broker.getAuthHeaders('TEST');
+
+      expect(headers).toEqual({
+        Authorization: 'Bearer jwt-token',
+        'sap-client': '100',
+        'sap-language': 'EN',
+      });
+    });
+
+    it('should return Cookie header for SAML session cookies', async () => {
+      mockSessionStore.getConnectionConfig.mockResolvedValue({
+        serviceUrl: 'https://test.sap.com',
+        sessionCookies: 'old=cookie',
+        authType: 'saml',
+      });
+      mockTokenProvider.getTokens.mockResolvedValue({
+        authorizationToken: 'MYSAPSSO2=abc; SAP_SESSIONID_ABC_100=xyz',
+        tokenType: 'saml',
+        authType: 'authorization_code',
+      });
+
+      const headers = await broker.getAuthHeaders('TEST');
+
+      expect(headers).toEqual({
+        Cookie: 'MYSAPSSO2=abc; SAP_SESSIONID_ABC_100=xyz',
+      });
+    });
+  });
+
+  describe('basic authentication', () => {
+    const encoded = (value: string) => Buffer.from(value).toString('base64');
+
+    afterEach(() => {
+      delete process.env.TEST_ABAP_PASSWORD;
+    });
+
+    it('should return basic credentials from session without provider roundtrip', async () => {
+      mockSessionStore.getConnectionConfig.mockResolvedValue({
+        serviceUrl: 'https://abap.onprem.local',
+        username: 'DEVELOPER',
+        password: 'secret',
+        authType: 'basic',
+        sapClient: '001',
+      });
+      mockSessionStore.getAuthorizationConfig.mockResolvedValue(null);
+
+      expect(await broker.getToken('ONPREM')).toBe(encoded('DEVELOPER:secret'));
+      expect(await broker.getAuthHeaders('ONPREM')).toEqual({
+        Authorization: `Basic ${encoded('DEVELOPER:secret')}`,
+        'sap-client': '001',
+      });
+      expect(mockTokenProvider.getTokens).not.toHaveBeenCalled();
+      expect(mockSessionStore.setConnectionConfig).not.toHaveBeenCalled();
+    });
+
+    it('should resolve env: password reference', async () => {
+      process.env.TEST_ABAP_PASSWORD = 'from-env';
+      mockSessionStore.getConnectionConfig.mockResolvedValue({
+        serviceUrl: 'https://abap.onprem.local',
+        username: 'DEVELOPER',
+        password: 'env:TEST_ABAP_PASSWORD',
+        authType: 'basic',
+      });
+      mockSessionStore.getAuthorizationConfig.mockResolvedValue(null);
+
+      expect(await broker.getToken('ONPREM')).toBe(
+        encoded('DEVELOPER:from-env'),
+      );
+    });
+
+    it('should fail when env: password reference is not set', async () => {
+      mockSessionStore.getConnectionConfig.mockResolvedValue({
+        serviceUrl: 'https://abap.onprem.local',
+        username: 'DEVELOPER',
+        password: 'env:TEST_ABAP_PASSWORD',
+        authType: 'basic',
+      });
+      mockSessionStore.getAuthorizationConfig.mockResolvedValue(null);
+
+      await expect(broker.getToken('ONPREM')).rejects.toThrow(
+        'environment variable TEST_ABAP_PASSWORD is not set',
+      );
+    });
+
+    it('should use custom secretResolver and service key credentials', async () => {
+      const secretResolver = jest.fn().mockResolvedValue('vault-secret');
+      mockSessionStore.getConnectionConfig.mockResolvedValue({
+        serviceUrl: 'https://abap.onprem.local',
+      });
+      mockSessionStore.getAuthorizationConfig.mockResolvedValue(null);
+      mockServiceKeyStore.getConnectionConfig.mockResolvedValue({
+        serviceUrl: 'https://abap.onprem.local',
+        username: 'DEVELOPER',
+        password: 'vault:abap/dev',
+        authType: 'basic',
+      });
+
+      const basicBroker = new AuthBroker(
+        {
+          sessionStore: mockSessionStore,
+          serviceKeyStore: mockServiceKeyStore,
+          tokenProvider: mockTokenProvider,
+          secretResolver,
+        },
+        undefined,
+        logger,
+      );
+
+      expect(await basicBroker.getToken('ONPREM')).toBe(
+        encoded('DEVELOPER:vault-secret'),
+      );
+      expect(secretResolver).toHaveBeenCalledWith('vault:abap/dev', 'ONPREM');
+      expect(mockTokenProvider.getTokens).not.toHaveBeenCalled();
+    });
+
+    it.each([
+      ['SAML', 'saml'],
+      ['JWT', 'jwt'],
+    ] as const)(
+      'should not use basic auth for %s session without token',
+      async (_label, authType) => {
+        mockSessionStore.getConnectionConfig.mockResolvedValue({
+          serviceUrl: 'https://test.sap.com',
+          username: 'DEVELOPER',
+          password: 'secret',
+          authType,
+        });
+        mockSessionStore.getAuthorizationConfig.mockResolvedValue({
+          uaaUrl: 'https://uaa.test.com',
+          uaaClientId: 'client123',
+          uaaClientSecret: 'secret123',
+        });
+        mockSessionStore.setConnectionConfig.mockResolvedValue(undefined);
+        mockSessionStore.setAuthorizationConfig.mockResolvedValue(undefined);
+        mockTokenProvider.getTokens.mockResolvedValue({
+          authorizationToken: 'new-token',
+          authType: 'authorization_code',
+        });
+
+        expect(await broker.getToken('TEST')).toBe('new-token');
+        expect(mockTokenProvider.getTokens).toHaveBeenCalledTimes(1);
+        expect((await broker.getTokenInfo('TEST')).tokenType).toBe('none');
+      },
+    );
+  });
+
+  describe('typed errors', () => {
+    const authConfig: IAuthorizationConfig = {
+      uaaUrl: 'https://uaa.test.com',
+      uaaClientId: 'client123',
+      uaaClientSecret: 'secret123',
+      refreshToken: 'refresh-token-123',
+    };
+    let errorBroker: AuthBroker;
+
+    beforeEach(() => {
+      mockSessionStore.getConnectionConfig.mockResolvedValue({
+        serviceUrl: 'https://test.sap.com',
+        authorizationToken: 'token',
+      });
+      mockSessionStore.getAuthorizationConfig.mockResolvedValue(authConfig);
+      errorBroker = new AuthBroker(
+        {
+          sessionStore: mockSessionStore,
+          tokenProvider: mockTokenProvider,
+        },
+        undefined,
+        noOpLogger,
+      );
+    });
+
+    it('should throw retryable NetworkError for provider network failures', async () => {
+      const networkError = Object.assign(new Error('connect ECONNREFUSED'), {
+        code: 'ECONNREFUSED',
+      });
+      mockTokenProvider.getTokens.mockRejectedValue(networkError);
+
+      const error = await errorBroker.getToken('TEST').catch((e) => e);
+
+      expect(error).toBeInstanceOf(NetworkError);
+      expect(error).toBeInstanceOf(AuthBrokerError);
+      expect(error.code).toBe(AUTH_BROKER_ERROR_CODES.NETWORK_ERROR);
+      expect(error.networkCode).toBe('ECONNREFUSED');
+      expect(error.destination).toBe('TEST');
+      expect(error.retryable).toBe(true);
+      expect(error.cause).toBe(networkError);
+    });
+
+    it('should throw ValidationError with missing fields', async () => {
+      mockTokenProvider.getTokens.mockRejectedValue(
+        Object.assign(new Error('invalid'), {
+          code: 'VALIDATION_ERROR',
+          missingFields: ['uaaClientId'],
+        }),
+      );
+
+      const error = await errorBroker.getToken('TEST').catch((e) => e);
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error.missingFields).toEqual(['uaaClientId']);
+      expect(error.retryable).toBe(false);
+    });
+
+    it('should throw StoreWriteError when session save fails', async () => {
+      mockTokenProvider.getTokens.mockResolvedValue({
+        authorizationToken: 'new-token',
+        authType: 'authorization_code',
+      });
+      mockSessionStore.setConnectionConfig.mockRejectedValue(
+        new Error('EACCES'),
+      );
+
+      const error = await errorBroker.getToken('TEST').catch((e) => e);
+
+      expect(error).toBeInstanceOf(StoreWriteError);
+      expect(error.code).toBe(AUTH_BROKER_ERROR_CODES.STORE_WRITE_ERROR);
+    });
+
+    it('should throw ConfigMissingError when serviceUrl is missing', async () => {
+      mockSessionStore.getConnectionConfig.mockResolvedValue({
+        authorizationToken: 'token',
+      });
+
+      const error = await errorBroker.getToken('TEST').catch((e) => e);
+
+      expect(error).toBeInstanceOf(ConfigMissingError);
+      expect(error.code).toBe(AUTH_BROKER_ERROR_CODES.CONFIG_MISSING);
+    });
+
+    it('should throw InteractiveAuthRequiredError with BROWSER_AUTH_REQUIRED code', async () => {
+      mockSessionStore.getAuthorizationConfig.mockResolvedValue({
+        ...authConfig,
+        refreshToken: undefined,
+      });
+      const noBrowserBroker = new AuthBroker(
+        {
+          sessionStore: mockSessionStore,
+          tokenProvider: mockTokenProvider,
+          allowBrowserAuth: false,
+        },
+        undefined,
+        noOpLogger,
+      );
+
+      const error = await noBrowserBroker.getToken('TEST').catch((e) => e);
+
+      expect(error).toBeInstanceOf(InteractiveAuthRequiredError);
+      expect(error.code).toBe('BROWSER_AUTH_REQUIRED');
+    });
+  });
+
+  describe('retryPolicy', () => {
+    const authConfig: IAuthorizationConfig = {
+      uaaUrl: 'https://uaa.test.com',
+      uaaClientId: 'client123',
+      uaaClientSecret: 'secret123',
+      refreshToken: 'refresh-token-123',
+    };
+    const networkError = () =>
+      Object.assign(new Error('connect ETIMEDOUT'), { code: 'ETIMEDOUT' });
+    let retryBroker: AuthBroker;
+
+    beforeEach(() => {
+      mockSessionStore.getConnectionConfig.mockResolvedValue({
+        serviceUrl: 'https://test.sap.com',
+        authorizationToken: 'token',
+      });
+      mockSessionStore.getAuthorizationConfig.mockResolvedValue(authConfig);
+      mockSessionStore.setConnectionConfig.mockResolvedValue(undefined);
+      mockSessionStore.setAuthorizationConfig.mockResolvedValue(undefined);
+      retryBroker = new AuthBroker(
+        {
+          sessionStore: mockSessionStore,
+          tokenProvider: mockTokenProvider,
+          retryPolicy: { attempts: 3, initialDelayMs: 1, jitter: 0 },
+        },
+        undefined,
+        noOpLogger,
+      );
+    });
+
+    it('should retry transient network failures and succeed', async () => {
+      mockTokenProvider.getTokens
+        .mockRejectedValueOnce(networkError())
+        .mockRejectedValueOnce(networkError())
+        .mockResolvedValueOnce({
+          authorizationToken: 'new-token',
+          authType: 'authorization_code',
+        });
+
+      expect(await retryBroker.getToken('TEST')).toBe('new-token');
+      expect(mockTokenProvider.getTokens).toHaveBeenCalledTimes(3);
+    });
+
+    it('should retry retryable HTTP statuses', async () => {
+      mockTokenProvider.getTokens
+        .mockRejectedValueOnce(
+          Object.assign(new Error('Service Unavailable'), {
+            response: { status: 503 },
+          }),
+        )
+        .mockResolvedValueOnce({
+          authorizationToken: 'new-token',
+          authType: 'authorization_code',
+        });
+
+      expect(await retryBroker.getToken('TEST')).toBe('new-token');
+      expect(mockTokenProvider.getTokens).toHaveBeenCalledTimes(2);
+    });
+
+    it('should give up after configured attempts with NetworkError', async () => {
+      mockTokenProvider.getTokens.mockRejectedValue(networkError());
+
+      const error = await retryBroker.getToken('TEST').catch((e) => e);
+
+      expect(error).toBeInstanceOf(NetworkError);
+      expect(mockTokenProvider.getTokens).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not retry non-retryable errors', async () => {
+      mockTokenProvider.getTokens.mockRejectedValue(new Error('invalid_grant'));
+
+      await expect(retryBroker.getToken('TEST')).rejects.toThrow(
+        'invalid_grant',
+      );
+      expect(mockTokenProvider.getTokens).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not retry calls that may start browser login', async () => {
+      mockSessionStore.getAuthorizationConfig.mockResolvedValue({
+        ...authConfig,
+        refreshToken: undefined,
+      });
+      mockTokenProvider.getTokens.mockRejectedValue(networkError());
+
+      await expect(retryBroker.getToken('TEST')).rejects.toThrow(
+        'network error',
+      );
+      expect(mockTokenProvider.getTokens).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not retry when retryPolicy is not configured', async () => {
+      mockTokenProvider.getTokens.mockRejectedValue(networkError());
+
+      const noRetryBroker = new AuthBroker(
+        {
+          sessionStore: mockSessionStore,
+          tokenProvider: mockTokenProvider,
+        },
+        undefined,
+        noOpLogger,
+      );
+
+      await expect(noRetryBroker.getToken('TEST')).rejects.toThrow(
+        NetworkError,
+      );
+      expect(mockTokenProvider.getTokens).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('circuitBreaker', () => {
+    const authConfig: IAuthorizationConfig = {
+      uaaUrl: 'https://uaa.test.com',
+      uaaClientId: 'client123',
+      uaaClientSecret: 'secret123',
+      refreshToken: 'refresh-token-123',
+    };
+    const networkError = () =>
+      Object.assign(new Error('connect ECONNREFUSED'), {
+        code: 'ECONNREFUSED',
+      });
+    let circuitBroker: AuthBroker;
+
+    beforeEach(() => {
+      jest.useFakeTimers({ now: new Date('2025-01-01T00:00:00Z') });
+      mockSessionStore.getConnectionConfig.mockResolvedValue({
+        serviceUrl: 'https://test.sap.com',
+        authorizationToken: 'token',
+      });
+      mockSessionStore.getAuthorizationConfig.mockResolvedValue(authConfig);
+      mockSessionStore.setConnectionConfig.mockResolvedValue(undefined);
+      mockSessionStore.setAuthorizationConfig.mockResolvedValue(undefined);
+      circuitBroker = new AuthBroker(
+        {
+          sessionStore: mockSessionStore,
+          tokenProvider: mockTokenProvider,
+          circuitBreaker: { failureThreshold: 2, cooldownMs: 10000 },
+        },
+        undefined,
+        noOpLogger,
+      );
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should open after consecutive failures and fail fast', async () => {
+      mockTokenProvider.getTokens.mockRejectedValue(networkError());
+
+      await expect(circuitBroker.getToken('TEST')).rejects.toThrow(
+        NetworkError,
+      );
+      await expect(circuitBroker.getToken('TEST')).rejects.toThrow(
+        NetworkError,
+      );
+      const error = await circuitBroker.getToken('TEST').catch((e) => e);
+
+      expect(error).toBeInstanceOf(CircuitOpenError);
+      expect(error.code).toBe(AUTH_BROKER_ERROR_CODES.CIRCUIT_OPEN);
+      expect(error.retryAt).toBe(Date.now() + 10000);
+      expect(mockTokenProvider.getTokens).toHaveBeenCalledTimes(2);
+      expect(circuitBroker.getCircuitState('TEST')?.state).toBe('open');
+    });
+
+    it('should allow a trial request after cooldown and close on success', async () => {
+      mockTokenProvider.getTokens
+        .mockRejectedValueOnce(networkError())
+        .mockRejectedValueOnce(networkError())
+        .mockResolvedValueOnce({
+          authorizationToken: 'new-token',
+          authType: 'authorization_code',
+        });
+
+      await circuitBroker.getToken('TEST').catch(() => undefined);
+      await circuitBroker.getToken('TEST').catch(() => undefined);
+      jest.advanceTimersByTime(10000);
+
+      expect(circuitBroker.getCircuitState('TEST')?.state).toBe('half-open');
+      expect(await circuitBroker.getToken('TEST')).toBe('new-token');
+      expect(circuitBroker.getCircuitState('TEST')).toEqual({
+        state: 'closed',
+        consecutiveFailures: 0,
+        openedAt: undefined,
+        retryAt: undefined,
+      });
+    });
+
+    it('should re-open when the trial request fails', async () => {
+      mockTokenProvider.getTokens.mockRejectedValue(networkError());
+
+      await circuitBroker.getToken('TEST').catch(() => undefined);
+      await circuitBroker.getToken('TEST').catch(() => undefined);
+      jest.advanceTimersByTime(10000);
+      await circuitBroker.getToken('TEST').catch(() => undefined);
+
+      expect(mockTokenProvider.getTokens).toHaveBeenCalledTimes(3);
+      expect(circuitBroker.getCircuitState('TEST')?.state).toBe('open');
+      await expect(circuitBroker.getToken('TEST')).rejects.toThrow(
+        CircuitOpenError,
+      );
+    });
+
+    it('should not count non-transient failures', async () => {
+      mockTokenProvider.getTokens.mockRejectedValue(new Error('invalid_grant'));
+
+      await circuitBroker.getToken('TEST').catch(() => undefined);
+      await circuitBroker.getToken('TEST').catch(() => undefined);
+      await circuitBroker.getToken('TEST').catch(() => undefined);
+
+      expect(mockTokenProvider.getTokens).toHaveBeenCalledTimes(3);
+      expect(circuitBroker.getCircuitState('TEST')?.state).toBe('closed');
+    });
+
+    it('should track destinations independently', async () => {
+      mockTokenProvider.getTokens.mockRejectedValue(networkError());
+
+      await circuitBroker.getToken('TEST').catch(() => undefined);
+      await circuitBroker.getToken('TEST').catch(() => undefined);
+
+      expect(circuitBroker.getCircuitState('TEST')?.state).toBe('open');
+      expect(circuitBroker.getCircuitState('OTHER')?.state).toBe('closed');
+    });
+
+    it('should return null state when circuit breaker is disabled', () => {
+      expect(broker.getCircuitState('TEST')).toBeNull();
+    });
+  });
+
+  describe('getToken cancellation', () => {
+    const authConfig: IAuthorizationConfig = {
+      uaaUrl: 'https://uaa.test.com',
+      uaaClientId: 'client123',
+      uaaClientSecret: 'secret123',
+      refreshToken: 'refresh-token-123',
+    };
+    let resolveTokens: (result: ITokenResult) => void;
+
+    beforeEach(() => {
+      mockSessionStore.getConnectionConfig.mockResolvedValue({
+        serviceUrl: 'https://test.sap.com',
+        authorizationToken: 'old-token',
+      });
+      mockSessionStore.getAuthorizationConfig.mockResolvedValue(authConfig);
+      mockSessionStore.setConnectionConfig.mockResolvedValue(undefined);
+      mockSessionStore.setAuthorizationConfig.mockResolvedValue(undefined);
+      resolveTokens = () => {};
+      mockTokenProvider.getTokens.mockImplementation(
+        () =>
+          new Promise<ITokenResult>((resolve) => {
+            resolveTokens = resolve;
+          }),
+      );
+    });
+
+    const waitForProvider = () =>
+      new Promise((resolve) => setImmediate(resolve));
+
+    it('should pass the abort signal to the provider', async () => {
+      const controller = new AbortController();
+      const request = broker.getToken('TEST', { signal: controller.signal });
+      await waitForProvider();
+
+      const [options] = mockTokenProvider.getTokens.mock.calls[0];
+      expect(options.signal.aborted).toBe(false);
+
+      controller.abort();
+      await expect(request).rejects.toThrow(TokenRequestAbortedError);
+      expect(options.signal.aborted).toBe(true);
+    });
+
+    it('should reject with abort error and not persist late results', async () => {
+      const controller = new AbortController();
+      const request = broker.getToken('TEST', { signal: controller.signal });
+      await waitForProvider();
+
+      controller.abort();
+      const error = await request.catch((e) => e);
+      resolveTokens({
+        authorizationToken: 'late-token',
+        authType: 'authorization_code',
+      });
+      await waitForProvider();
+
+      expect(error).toBeInstanceOf(TokenRequestAbortedError);
+      expect(error.code).toBe(AUTH_BROKER_ERROR_CODES.ABORTED);
+      expect(error.destination).toBe('TEST');
+      expect(mockSessionStore.setConnectionConfig).not.toHaveBeenCalled();
+    });
+
+    it('should reject immediately when signal is already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        broker.getToken('TEST', { signal: controller.signal }),
+      ).rejects.toThrow(TokenRequestAbortedError);
+      expect(mockSessionStore.getConnectionConfig).not.toHaveBeenCalled();
+    });
+
+    it('should reject with timeout error after timeoutMs', async () => {
+      const error = await broker
+        .getToken('TEST', { timeoutMs: 10 })
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(TokenRequestTimeoutError);
+      expect(error.code).toBe(AUTH_BROKER_ERROR_CODES.TIMEOUT);
+      expect(error.timeoutMs).toBe(10);
+    });
+
+    it('should keep the shared request running for remaining callers', async () => {
+      const controller = new AbortController();
+      const aborted = broker.getToken('TEST', { signal: controller.signal });
+      const waiting = broker.getToken('TEST');
+      await waitForProvider();
+
+      controller.abort();
+      await expect(aborted).rejects.toThrow(TokenRequestAbortedError);
+      resolveTokens({
+        authorizationToken: 'new-token',
+        authType: 'authorization_code',
+      });
+
+      expect(await waiting).toBe('new-token');
+      expect(mockTokenProvider.getTokens).toHaveBeenCalledTimes(1);
+      expect(mockSessionStore.setConnectionConfig).toHaveBeenCalledTimes(1);
+    });
+
+    it('should start a new request after the previous one was aborted', async () => {
+      const controller = new AbortController();
+      const aborted = broker.getToken('TEST', { signal: controller.signal });
+      await waitForProvider();
+      controller.abort();
+      await expect(aborted).rejects.toThrow(TokenRequestAbortedError);
+
+      const next = broker.getToken('TEST');
+      await waitForProvider();
+      resolveTokens({
+        authorizationToken: 'new-token',
+        authType: 'authorization_code',
+      });
+
+      expect(await next).toBe('new-token');
+      expect(mockTokenProvider.getTokens).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('getTokenInfo', () => {
+    const now = Math.floor(Date.now() / 1000);
+
+    it('should decode JWT claims without exposing the token', async () => {
+      const token = jwt({
+        iss: 'https://trial.authentication.sap.hana.ondemand.com/oauth/token',
+        sub: 'user-id',
+        user_name: 'john@example.com',
+        email: 'john@example.com',
+        cid: 'sb-client',
+        zid: 'zone-1',
+        ext_attr: { zdn: 'trial' },
+        scope: ['openid', 'abap.read'],
+        aud: 'sb-client',
+        iat: now - 60,
+        exp: now + 600,
+      });
+      mockSessionStore.getConnectionConfig.mockResolvedValue({
+        serviceUrl: 'https://test.sap.com',
+        authorizationToken: token,
+      });
+      mockSessionStore.getAuthorizationConfig.mockResolvedValue({
+        uaaUrl: 'https://uaa.test.com',
+        uaaClientId: 'sb-client',
+        uaaClientSecret: 'secret',
+        refreshToken: 'refresh-token',
+      });
+
+      const info = await broker.getTokenInfo('TEST');
+
+      expect(info).toMatchObject({
+        destination: 'TEST',
+        tokenType: 'jwt',
+        issuer:
+          'https://trial.authentication.sap.hana.ondemand.com/oauth/token',
+        subject: 'user-id',
+        userName: 'john@example.com',
+        clientId: 'sb-client',
+        zoneId: 'zone-1',
+        tenant: 'trial',
+        scopes: ['openid', 'abap.read'],
+        audience: ['sb-client'],
+        issuedAt: (now - 60) * 1000,
+        expiresAt: (now + 600) * 1000,
+        hasRefreshToken: true,
+      });
+      expect(info.remainingSeconds).toBeGreaterThan(590);
+      expect(JSON.stringify(info)).not.toContain(token);
+      expect(mockTokenProvider.getTokens).not.toHaveBeenCalled();
+    });
+
+    it('should read space-separated OIDC scopes and report expired tokens', async () => {
+      mockSessionStore.getConnectionConfig.mockResolvedValue({
+        serviceUrl: 'https://test.sap.com',
+        authorizationToken: jwt({ scp: 'openid profile', exp: now - 30 }),
+      });
+      mockSessionStore.getAuthorizationConfig.mockResolvedValue(null);
+
+      const info = await broker.getTokenInfo('TEST');
+
+      expect(info.scopes).toEqual(['openid', 'profile']);
+      expect(info.remainingSeconds).toBeLessThan(0);
+      expect(info.hasRefreshToken).toBe(false);
+    });
+
+    it('should report opaque tokens', async () => {
+      mockSessionStore.getConnectionConfig.mockResolvedValue({
+        serviceUrl: 'https://test.sap.com',
+        authorizationToken: 'not-a-jwt',
+      });
+      mockSessionStore.getAuthorizationConfig.mockResolvedValue(null);
+
+      const info = await broker.getTokenInfo('TEST');
+
+      expect(info.tokenType).toBe('opaque');
+      expect(info.expiresAt).toBeUndefined();
+    });
+
+    it('should report cookie names for SAML sessions', async () => {
+      mockSessionStore.getConnectionConfig.mockResolvedValue({
+        serviceUrl: 'https://test.sap.com',
+        sessionCookies:
+          'SAP_SESSIONID_ABC_100=secret; sap-usercontext=sap-client=100',
+        authType: 'saml',
+      });
+      mockSessionStore.getAuthorizationConfig.mockResolvedValue(null);
+
+      const info = await broker.getTokenInfo('TEST');
+
+      expect(info.tokenType).toBe('saml');
+      expect(info.cookieNames).toEqual([
+        'SAP_SESSIONID_ABC_100',
+        'sap-usercontext',
+      ]);
+      expect(JSON.stringify(info)).not.toContain('secret');
+    });
+
+    it('should report none when session has no credentials', async () => {
+      mockSessionStore.getConnectionConfig.mockResolvedValue(null);
+      mockSessionStore.getAuthorizationConfig.mockResolvedValue(null);
+
+      expect(await broker.getTokenInfo('TEST')).toEqual({
+        destination: 'TEST',
+        tokenType: 'none',
+        hasRefreshToken: false,
+      });
+    });
+  });
+
+  describe('requiredScopes', () => {
+    const authConfig: IAuthorizationConfig = {
+      uaaUrl: 'https://uaa.test.com',
+      uaaClientId: 'client123',
+      uaaClientSecret: 'secret123',
+      refreshToken: 'refresh-token-123',
+    };
+    const displayToken = jwt({ scope: ['openid', 'myapp!t1.Display'] });
+    const adminToken = jwt({
+      scope: ['openid', 'myapp!t1.Display', 'myapp!t1.Admin'],
+    });
+
+    beforeEach(() => {
+      mockSessionStore.getConnectionConfig.mockResolvedValue({
+        serviceUrl: 'https://test.sap.com',
+        authorizationToken: 'old-token',
+      });
+      mockSessionStore.getAuthorizationConfig.mockResolvedValue(authConfig);
+      mockSessionStore.setConnectionConfig.mockResolvedValue(undefined);
+      mockSessionStore.setAuthorizationConfig.mockResolvedValue(undefined);
+    });
+
+    it('should return token that grants required scopes', async () => {
+      mockTokenProvider.getTokens.mockResolvedValue({
+        authorizationToken: displayToken,
+        authType: 'authorization_code',
+      });
+
+      const token = await broker.getToken('TEST', {
+        requiredScopes: ['myapp!t1.Display'],
+      });
+
+      expect(token).toBe(displayToken);
+      expect(mockTokenProvider.getTokens).toHaveBeenCalledTimes(1);
+    });
+
+    it('should match $XSAPPNAME scopes against any application prefix', async () => {
+      mockTokenProvider.getTokens.mockResolvedValue({
+        authorizationToken: displayToken,
+        authType: 'authorization_code',
+      });
+
+      await expect(
+        broker.getToken('TEST', { requiredScopes: ['$XSAPPNAME.Display'] }),
+      ).resolves.toBe(displayToken);
+    });
+
+    it('should re-authenticate once when scopes are missing', async () => {
+      mockTokenProvider.getTokens
+        .mockResolvedValueOnce({
+          authorizationToken: displayToken,
+          authType: 'authorization_code',
+        })
+        .mockResolvedValueOnce({
+          authorizationToken: adminToken,
+          authType: 'authorization_code',
+        });
+
+      const token = await broker.getToken('TEST', {
+        requiredScopes: ['$XSAPPNAME.Admin'],
+      });
+
+      expect(token).toBe(adminToken);
+      expect(mockTokenProvider.getTokens).toHaveBeenCalledTimes(2);
+    });
+
+    it('should log in again instead of refreshing when scopes are missing', async () => {
+      let sessionAuthConfig: IAuthorizationConfig = authConfig;
+      mockSessionStore.getAuthorizationConfig.mockImplementation(
+        async () => sessionAuthConfig,
+      );
+      mockSessionStore.setAuthorizationConfig.mockImplementation(
+        async (_destination: string, config: IAuthorizationConfig) => {
+          sessionAuthConfig = config;
+        },
+      );
+      // Refresh grant keeps the granted scopes; only a new login picks up new role assignments
+      const factory = jest.fn(
+        (_destination: string, providerAuthConfig: IAuthorizationConfig) => ({
+          getTokens: jest.fn(async () => ({
+            authorizationToken: providerAuthConfig.refreshToken
+              ? displayToken
+              : adminToken,
+            refreshToken: 'refresh-token-456',
+            authType: 'authorization_code' as const,
+          })),
+        }),
+      );
+      const factoryBroker = new AuthBroker(
+        { sessionStore: mockSessionStore, tokenProviderFactory: factory },
+        undefined,
+        noOpLogger,
+      );
+
+      const token = await factoryBroker.getToken('TEST', {
+        requiredScopes: ['$XSAPPNAME.Admin'],
+      });
+
+      expect(token).toBe(adminToken);
+      expect(factory).toHaveBeenCalledTimes(2);
+      expect(factory.mock.calls[1][1].refreshToken).toBeUndefined();
+    });
+
+    describe('without new login', () => {
+      let sessionConnConfig: IConnectionConfig;
+      let sessionAuthConfig: IAuthorizationConfig;
+
+      beforeEach(() => {
+        sessionConnConfig = {
+          serviceUrl: 'https://test.sap.com',
+          authorizationToken: displayToken,
+          authType: 'jwt',
+        };
+        sessionAuthConfig = authConfig;
+        mockSessionStore.getConnectionConfig.mockImplementation(
+          async () => sessionConnConfig,
+        );
+        mockSessionStore.getAuthorizationConfig.mockImplementation(
+          async () => sessionAuthConfig,
+        );
+        mockSessionStore.setConnectionConfig.mockImplementation(
+          async (_destination: string, config: IConnectionConfig) => {
+            sessionConnConfig = config;
+          },
+        );
+        mockSessionStore.setAuthorizationConfig.mockImplementation(
+          async (_destination: string, config: IAuthorizationConfig) => {
+            sessionAuthConfig = config;
+          },
+        );
+        mockTokenProvider.getTokens.mockResolvedValue({
+          authorizationToken: displayToken,
+          refreshToken: 'refresh-token-123',
+          authType: 'authorization_code',
+        });
+      });
+
+      it('should keep session when browser auth is disabled', async () => {
+        const headlessBroker = new AuthBroker(
+          {
+            sessionStore: mockSessionStore,
+            tokenProvider: mockTokenProvider,
+            allowBrowserAuth: false,
+          },
+          undefined,
+          noOpLogger,
+        );
+
+        const error = await headlessBroker
+          .getToken('TEST', { requiredScopes: ['$XSAPPNAME.Admin'] })
+          .catch((e) => e);
+
+        expect(error).toBeInstanceOf(InsufficientScopeError);
+        expect(error.missingScopes).toEqual(['$XSAPPNAME.Admin']);
+        expect(mockTokenProvider.getTokens).toHaveBeenCalledTimes(1);
+        expect(sessionConnConfig.authorizationToken).toBe(displayToken);
+        expect(sessionAuthConfig.refreshToken).toBe('refresh-token-123');
+        // Session still works for calls that don't need the scope
+        await expect(headlessBroker.getToken('TEST')).resolves.toBe(
+          displayToken,
+        );
+      });
+
+      it('should keep session when interactive auth is denied', async () => {
+        const handler = jest.fn().mockResolvedValue('deny');
+        const handlerBroker = new AuthBroker(
+          {
+            sessionStore: mockSessionStore,
+            tokenProvider: mockTokenProvider,
+            interactiveAuthHandler: handler,
+          },
+          undefined,
+          noOpLogger,
+        );
+
+        const error = await handlerBroker
+          .getToken('TEST', { requiredScopes: ['$XSAPPNAME.Admin'] })
+          .catch((e) => e);
+
+        expect(error).toBeInstanceOf(InsufficientScopeError);
+        expect(error.cause).toBeInstanceOf(InteractiveAuthRequiredError);
+        expect(handler).toHaveBeenCalledTimes(1);
+        expect(mockTokenProvider.getTokens).toHaveBeenCalledTimes(1);
+        expect(sessionAuthConfig.refreshToken).toBe('refresh-token-123');
+      });
+    });
+
+    it('should throw InsufficientScopeError listing missing scopes', async () => {
+      mockTokenProvider.getTokens.mockResolvedValue({
+        authorizationToken: displayToken,
+        authType: 'authorization_code',
+      });
+
+      const error = await broker
+        .getToken('TEST', {
+          requiredScopes: ['$XSAPPNAME.Display', '$XSAPPNAME.Admin'],
+        })
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(InsufficientScopeError);
+      expect(error.code).toBe(AUTH_BROKER_ERROR_CODES.INSUFFICIENT_SCOPE);
+      expect(error.missingScopes).toEqual(['$XSAPPNAME.Admin']);
+      expect(error.grantedScopes).toEqual(['openid', 'myapp!t1.Display']);
+      expect(error.message).toContain('$XSAPPNAME.Admin');
+      expect(mockTokenProvider.getTokens).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not check scopes of non-JWT tokens', async () => {
+      mockTokenProvider.getTokens.mockResolvedValue({
+        authorizationToken: 'opaque-token',
+        authType: 'authorization_code',
+      });
+
+      await expect(
+        broker.getToken('TEST', { requiredScopes: ['$XSAPPNAME.Admin'] }),
+      ).resolves.toBe('opaque-token');
+      expect(mockTokenProvider.getTokens).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('logout', () => {
+    const connConfig: IConnectionConfig = {
+      serviceUrl: 'https://test.sap.com',
+      authorizationToken: 'access-token',
+      sapClient: '100',
+    };
+    const authConfig: IAuthorizationConfig = {
+      uaaUrl: 'https://uaa.test.com',
+      uaaClientId: 'client123',
+      uaaClientSecret: 'secret123',
+      refreshToken: 'refresh-token-123',
+    };
+
+    beforeEach(() => {
+      mockSessionStore.getConnectionConfig.mockResolvedValue(connConfig);
+      mockSessionStore.getAuthorizationConfig.mockResolvedValue(authConfig);
+      mockSessionStore.setConnectionConfig.mockResolvedValue(undefined);
+      mockSessionStore.setAuthorizationConfig.mockResolvedValue(undefined);
+    });
+
+    it('should clear tokens and keep serviceUrl and client config', async () => {
+      const result = await broker.logout('TEST');
+
+      expect(result).toEqual({ sessionCleared: true, revoked: false });
+      expect(mockSessionStore.setConnectionConfig).toHaveBeenCalledWith(
+        'TEST',
+        {
+          serviceUrl: 'https://test.sap.com',
+          sapClient: '100',
+          authorizationToken: undefined,
+          sessionCookies: undefined,
+        },
+      );
+      expect(mockSessionStore.setAuthorizationConfig).toHaveBeenCalledWith(
+        'TEST',
+        {
+          uaaUrl: 'https://uaa.test.com',
+          uaaClientId: 'client123',
+          uaaClientSecret: 'secret123',
+          refreshToken: undefined,
+        },
+      );
+      expect(mockedAxios.delete).not.toHaveBeenCalled();
+      expect(mockTokenProvider.getTokens).not.toHaveBeenCalled();
+    });
+
+    it('should revoke refresh token at UAA', async () => {
+      mockedAxios.delete.mockResolvedValue({ status: 200 });
+
+      const result = await broker.logout('TEST', { revoke: true });
+
+      expect(result.revoked).toBe(true);
+      expect(mockedAxios.delete).toHaveBeenCalledWith(
+        'https://uaa.test.com/oauth/token/revoke/refresh-token-123',
+        { headers: { Authorization: 'Bearer access-token' } },
+      );
+    });
+
+    it('should revoke refresh token at RFC 7009 endpoint', async () => {
+      mockedAxios.post.mockResolvedValue({ status: 200 });
+
+      await broker.logout('TEST', {
+        revoke: true,
+        revocationUrl: 'https://idp.test.com/revoke',
+      });
+
+      expect(mockedAxios.post).toHaveBeenCalledWith(
+        'https://idp.test.com/revoke',
+        'token=refresh-token-123&token_type_hint=refresh_token',
+        expect.objectContaining({
+          auth: { username: 'client123', password: 'secret123' },
+        }),
+      );
+    });
+
+    it('should clear session even when revocation fails', async () => {
+      mockedAxios.delete.mockRejectedValue(new Error('Request failed'));
+
+      const result = await broker.logout('TEST', { revoke: true });
+
+      expect(result.sessionCleared).toBe(true);
+      expect(result.revoked).toBe(false);
+      expect(result.revocationError?.message).toBe('Request failed');
+      expect(mockSessionStore.setConnectionConfig).toHaveBeenCalled();
+    });
+
+    it('should drop cached token', async () => {
+      const cachingBroker = new AuthBroker(
+        {
+          sessionStore: mockSessionStore,
+          tokenProvider: mockTokenProvider,
+          tokenCache: true,
+        },
+        undefined,
+        noOpLogger,
+      );
+      mockTokenProvider.getTokens.mockResolvedValue({
+        authorizationToken: 'new-token',
+        authType: 'authorization_code',
+        expiresIn: 3600,
+      });
+      await cachingBroker.getToken('TEST');
+
+      await cachingBroker.logout('TEST');
+      await cachingBroker.getToken('TEST');
+
+      expect(mockTokenProvider.getTokens).toHaveBeenCalledTimes(2);
+    });
+
+    it('should clear tokens kept in memory by shared tokenProvider', async () => {
+      // Stateful provider: returns its last login until clearTokens() is called
+      let logins = 0;
+      let cachedToken: string | undefined;
+      const statefulProvider = {
+        getTokens: jest.fn(async () => {
+          cachedToken ??= `login-${++logins}`;
+          return { authorizationToken: cachedToken };
+        }),
+        clearTokens: jest.fn(() => {
+          cachedToken = undefined;
+        }),
+      };
+      const statefulBroker = new AuthBroker(
+        { sessionStore: mockSessionStore, tokenProvider: statefulProvider },
+        undefined,
+        noOpLogger,
+      );
+      mockSessionStore.getConnectionConfig.mockResolvedValue({
+        serviceUrl: 'https://test.sap.com',
+      });
+      expect(await statefulBroker.getToken('TEST')).toBe('login-1');
+
+      await statefulBroker.logout('TEST');
+
+      expect(statefulProvider.clearTokens).toHaveBeenCalledTimes(1);
+      expect(await statefulBroker.getToken('TEST')).toBe('login-2');
+    });
+
+    it('should not write session without credentials', async () => {
+      mockSessionStore.getConnectionConfig.mockResolvedValue({
+        serviceUrl: 'https://test.sap.com',
+      });
+      mockSessionStore.getAuthorizationConfig.mockResolvedValue({
+        ...authConfig,
+        refreshToken: undefined,
+      });
+
+      const result = await broker.logout('TEST', { revoke: true });
+
+      expect(result).toEqual({ sessionCleared: false, revoked: false });
+      expect(mockSessionStore.setConnectionConfig).not.toHaveBeenCalled();
+      expect(mockedAxios.delete).not.toHaveBeenCalled();
+    });
+
+    it('should clear refresh token of public client without client secret', async () => {
+      mockSessionStore.getAuthorizationConfig.mockResolvedValue({
+        uaaUrl: 'https://uaa.test.com',
+        uaaClientId: 'public-client',
+        refreshToken: 'refresh-token-123',
+      } as IAuthorizationConfig);
+
+      const result = await broker.logout('TEST');
+
+      expect(result.sessionCleared).toBe(true);
+      expect(mockSessionStore.setAuthorizationConfig).toHaveBeenCalledWith(
+        'TEST',
+        {
+          uaaUrl: 'https://uaa.test.com',
+          uaaClientId: 'public-client',
+          refreshToken: undefined,
+        },
+      );
+    });
+
+    it('should clear refresh token through setSession', async () => {
+      const setSession = jest.fn().mockResolvedValue(undefined);
+      const transactionalBroker = new AuthBroker(
+        {
+          sessionStore: { ...mockSessionStore, setSession } as ISessionStore,
+          tokenProvider: mockTokenProvider,
+        },
+        undefined,
+        noOpLogger,
+      );
+
+      const result = await transactionalBroker.logout('TEST');
+
+      expect(result.sessionCleared).toBe(true);
+      expect(setSession).toHaveBeenCalledWith(
+        'TEST',
+        expect.objectContaining({ authorizationToken: undefined }),
+        expect.objectContaining({
+          uaaClientId: 'client123',
+          refreshToken: undefined,
+        }),
+      );
+    });
+
+    it('should clear refresh token when session has no connection config', async () => {
+      mockSessionStore.getConnectionConfig.mockResolvedValue(null);
+
+      const result = await broker.logout('TEST');
+
+      expect(result.sessionCleared).toBe(true);
+      expect(mockSessionStore.setConnectionConfig).not.toHaveBeenCalled();
+      expect(mockSessionStore.setAuthorizationConfig).toHaveBeenCalledWith(
+        'TEST',
+        expect.objectContaining({ refreshToken: undefined }),
+      );
+    });
+
+    it('should not report cleared session when the write fails', async () => {
+      mockSessionStore.setAuthorizationConfig.mockRejectedValue(
+        new Error('disk full'),
+      );
+
+      await expect(broker.logout('TEST')).rejects.toBeInstanceOf(
+        StoreWriteError,
+      );
+    });
+  });
+
+  describe('listDestinations', () => {
+    it('should merge destinations from session and service key stores', async () => {
+      const exp = Math.floor(Date.now() / 1000) + 600;
+      (mockSessionStore as any).list = jest
+        .fn()
+        .mockResolvedValue(['TRIAL', 'DEV']);
+      (mockServiceKeyStore as any).list = jest
+        .fn()
+        .mockResolvedValue(['DEV', 'PROD']);
+      mockSessionStore.getConnectionConfig.mockImplementation(
+        async (destination: string) => {
+          if (destination === 'TRIAL') {
+            return {
+              serviceUrl: 'https://trial.sap.com',
+              authorizationToken: jwt({ exp }),
+            };
+          }
+          if (destination === 'DEV') {
+            return {
+              serviceUrl: 'https://dev.sap.com',
+              sessionCookies: 'SAP_SESSIONID=abc',
+            };
+          }
+          return null;
+        },
+      );
+      mockSessionStore.getAuthorizationConfig.mockImplementation(
+        async (destination: string) =>
+          destination === 'TRIAL'
+            ? {
+                uaaUrl: 'https://uaa.test.com',
+                uaaClientId: 'client',
+                uaaClientSecret: 'secret',
+                refreshToken: 'refresh',
+              }
+            : null,
+      );
+      mockServiceKeyStore.getServiceKey.mockResolvedValue(null);
+
+      const destinations = await broker.listDestinations();
+
+      expect(destinations).toEqual([
+        {
+          destination: 'DEV',
+          hasServiceKey: true,
+          hasSession: true,
+          authType: 'saml',
+          tokenExpiresAt: undefined,
+          hasRefreshToken: false,
+        },
+        {
+          destination: 'PROD',
+          hasServiceKey: true,
+          hasSession: false,
+          authType: 'none',
+          tokenExpiresAt: undefined,
+          hasRefreshToken: false,
+        },
+        {
+          destination: 'TRIAL',
+          hasServiceKey: false,
+          hasSession: true,
+          authType: 'jwt',
+          tokenExpiresAt: exp * 1000,
+          hasRefreshToken: true,
+        },
+      ]);
+      expect(mockTokenProvider.getTokens).not.toHaveBeenCalled();
+    });
+
+    it('should look up service keys when service key store cannot list', async () => {
+      (mockSessionStore as any).list = jest.fn().mockResolvedValue(['TRIAL']);
+      mockSessionStore.getConnectionConfig.mockResolvedValue({
+        serviceUrl: 'https://trial.sap.com',
+        authorizationToken: 'token',
+      });
+      mockSessionStore.getAuthorizationConfig.mockResolvedValue(null);
+      mockServiceKeyStore.getServiceKey.mockResolvedValue({
+        uaa: { url: 'https://uaa.test.com' },
+      } as any);
+
+      const [status] = await broker.listDestinations();
+
+      expect(status.hasServiceKey).toBe(true);
+      expect(mockServiceKeyStore.getServiceKey).toHaveBeenCalledWith('TRIAL');
+    });
+
+    it('should return empty list when stores do not support list()', async () => {
+      expect(await broker.listDestinations()).toEqual([]);
+    });
+
+    it('should skip store whose list() fails', async () => {
+      (mockSessionStore as any).list = jest
+        .fn()
+        .mockRejectedValue(new Error('EACCES'));
+      (mockServiceKeyStore as any).list = jest.fn().mockResolvedValue(['PROD']);
+      mockSessionStore.getConnectionConfig.mockResolvedValue(null);
+      mockSessionStore.getAuthorizationConfig.mockResolvedValue(null);
+
+      const destinations = await broker.listDestinations();
+
+      expect(destinations.map((status) => status.destination)).toEqual([
+        'PROD',
+      ]);
+    });
+  });
+
+  describe('explainToken', () => {
+    const authConfig: IAuthorizationConfig = {
+      uaaUrl: 'https://uaa.test.com',
+      uaaClientId: 'client123',
+      uaaClientSecret: 'secret123',
+    };
+
+    afterEach(() => {
+      expect(mockTokenProvider.getTokens).not.toHaveBeenCalled();
+      expect(mockSessionStore.setConnectionConfig).not.toHaveBeenCalled();
+    });
+
+    it('should plan session refresh with service key fallback', async () => {
+      mockSessionStore.getConnectionConfig.mockResolvedValue({
+        serviceUrl: 'https://test.sap.com',
+        authorizationToken: 'token',
+      });
+      mockSessionStore.getAuthorizationConfig.mockResolvedValue({
+        ...authConfig,
+        refreshToken: 'refresh-token',
+      });
+      mockServiceKeyStore.getAuthorizationConfig.mockResolvedValue(authConfig);
+
+      const explanation = await broker.explainToken('TEST');
+
+      expect(explanation.plannedPath.map((step) => step.step)).toEqual([
+        'session',
+        'serviceKeyFallback',
+      ]);
+      expect(explanation.plannedPath[0].interactive).toBe(false);
+      expect(explanation.interactiveAuthRequired).toBe(false);
+      expect(explanation.sources).toEqual({
+        serviceUrl: 'session',
+        token: 'session',
+        authConfig: 'session',
+        refreshToken: 'session',
+      });
+      expect(explanation.expectedError).toBeUndefined();
+    });
+
+    it('should plan interactive Step 0 from service key for empty session', async () => {
+      mockSessionStore.getConnectionConfig.mockResolvedValue(null);
+      mockSessionStore.getAuthorizationConfig.mockResolvedValue(null);
+      mockServiceKeyStore.getConnectionConfig.mockResolvedValue({
+        serviceUrl: 'https://test.sap.com',
+      });
+      mockServiceKeyStore.getAuthorizationConfig.mockResolvedValue(authConfig);
+
+      const explanation = await broker.explainToken('TEST');
+
+      expect(explanation.plannedPath).toEqual([
+        expect.objectContaining({ step: 'serviceKeyInit', interactive: true }),
+      ]);
+      expect(explanation.interactiveAuthRequired).toBe(true);
+      expect(explanation.sources).toEqual({
+        serviceUrl: 'serviceKey',
+        authConfig: 'serviceKey',
+      });
+    });
+
+    it('should report BROWSER_AUTH_REQUIRED when browser auth is disabled', async () => {
+      const headlessBroker = new AuthBroker(
+        {
+          sessionStore: mockSessionStore,
+          serviceKeyStore: mockServiceKeyStore,
+          tokenProvider: mockTokenProvider,
+          allowBrowserAuth: false,
+        },
+        undefined,
+        noOpLogger,
+      );
+      mockSessionStore.getConnectionConfig.mockResolvedValue({
+        serviceUrl: 'https://test.sap.com',
+        authorizationToken: 'token',
+      });
+      mockSessionStore.getAuthorizationConfig.mockResolvedValue(authConfig);
+
+      const explanation = await headlessBroker.explainToken('TEST');
+
+      expect(explanation.plannedPath).toEqual([]);
+      expect(explanation.allowBrowserAuth).toBe(false);
+      expect(explanation.expectedError?.code).toBe(
+        AUTH_BROKER_ERROR_CODES.BROWSER_AUTH_REQUIRED,
+      );
+    });
+
+    it('should plan basic auth without provider', async () => {
+      mockSessionStore.getConnectionConfig.mockResolvedValue({
+        serviceUrl: 'https://onprem.sap.com',
+        authType: 'basic',
+        username: 'DEVELOPER',
+        password: 'secret',
+      });
+      mockSessionStore.getAuthorizationConfig.mockResolvedValue(null);
+
+      const explanation = await broker.explainToken('TEST');
+
+      expect(explanation.plannedPath.map((step) => step.step)).toEqual([
+        'basic',
+      ]);
+      expect(explanation.sources.basicCredentials).toBe('session');
+    });
+
+    it('should report missing serviceUrl as CONFIG_MISSING', async () => {
+      mockSessionStore.getConnectionConfig.mockResolvedValue(null);
+      mockSessionStore.getAuthorizationConfig.mockResolvedValue(null);
+      mockServiceKeyStore.getConnectionConfig.mockResolvedValue(null);
+
+      const explanation = await broker.explainToken('TEST');
+
+      expect(explanation.plannedPath).toEqual([]);
+      expect(explanation.expectedError?.code).toBe(
+        AUTH_BROKER_ERROR_CODES.CONFIG_MISSING,
+      );
+    });
+  });
+
+  describe('refreshLock', () => {
+    const oldToken = jwt({ exp: Math.floor(Date.now() / 1000) + 10 });
+    const authConfig: IAuthorizationConfig = {
+      uaaUrl: 'https://uaa.test.com',
+      uaaClientId: 'client123',
+      uaaClientSecret: 'secret123',
+      refreshToken: 'refresh-token-123',
+    };
+    let lockDir: string;
+    let lockPath: string;
+
+    const createLockedBroker = (options: object = {}) =>
+      new AuthBroker(
+        {
+          serviceKeyStore: mockServiceKeyStore,
+          sessionStore: mockSessionStore,
+          tokenProvider: mockTokenProvider,
+          refreshLock: { lockDir, retryIntervalMs: 10, ...options },
+        },
+        'none',
+        noOpLogger,
+      );
+
+    const holdLock = (createdAt = Date.now()) =>
+      fs.writeFile(
+        lockPath,
+        JSON.stringify({
+          id: 'other-process',
+          pid: process.pid,
+          hostname: os.hostname(),
+          createdAt,
+        }),
+      );
+
+    beforeEach(async () => {
+      lockDir = await fs.mkdtemp(path.join(os.tmpdir(), 'auth-broker-lock-'));
+      lockPath = path.join(lockDir, 'TEST.lock');
+      mockSessionStore.getConnectionConfig.mockResolvedValue({
+        serviceUrl: 'https://test.sap.com',
+        authorizationToken: oldToken,
+      });
+      mockSessionStore.getAuthorizationConfig.mockResolvedValue(authConfig);
+      mockSessionStore.setConnectionConfig.mockResolvedValue(undefined);
+      mockSessionStore.setAuthorizationConfig.mockResolvedValue(undefined);
+    });
+
+    afterEach(async () => {
+      await fs.rm(lockDir, { recursive: true, force: true });
+    });
+
+    it('should run provider under lock and release it', async () => {
+      mockTokenProvider.getTokens.mockResolvedValue({
+        authorizationToken: 'new-token',
+        expiresIn: 3600,
+      });
+
+      const token = await createLockedBroker().getToken('TEST');
+
+      expect(token).toBe('new-token');
+      expect(mockTokenProvider.getTokens).toHaveBeenCalledTimes(1);
+      await expect(fs.access(lockPath)).rejects.toThrow();
+    });
+
+    it('should use token refreshed by another process while waiting for lock', async () => {
+      const refreshedToken = jwt({ exp: Math.floor(Date.now() / 1000) + 3600 });
+      await holdLock();
+      setTimeout(() => {
+        mockSessionStore.getConnectionConfig.mockResolvedValue({
+          serviceUrl: 'https://test.sap.com',
+          authorizationToken: refreshedToken,
+        });
+        void fs.rm(lockPath);
+      }, 50);
+
+      const token = await createLockedBroker().getToken('TEST');
+
+      expect(token).toBe(refreshedToken);
+      expect(mockTokenProvider.getTokens).not.toHaveBeenCalled();
+      expect(mockSessionStore.setConnectionConfig).not.toHaveBeenCalled();
+    });
+
+    it('should not use token from another process that is about to expire', async () => {
+      await holdLock();
+      setTimeout(() => {
+        mockSessionStore.getConnectionConfig.mockResolvedValue({
+          serviceUrl: 'https://test.sap.com',
+          authorizationToken: jwt({ exp: Math.floor(Date.now() / 1000) + 5 }),
+        });
+        void fs.rm(lockPath);
+      }, 50);
+      mockTokenProvider.getTokens.mockResolvedValue({
+        authorizationToken: 'new-token',
+      });
+
+      const token = await createLockedBroker().getToken('TEST');
+
+      expect(token).toBe('new-token');
+      expect(mockTokenProvider.getTokens).toHaveBeenCalledTimes(1);
+    });
+
+    it('should take over stale lock', async () => {
+      await holdLock(Date.now() - 10000);
+      mockTokenProvider.getTokens.mockResolvedValue({
+        authorizationToken: 'new-token',
+      });
+
+      const token = await createLockedBroker({ staleMs: 1000 }).getToken(
+        'TEST',
+      );
+
+      expect(token).toBe('new-token');
+      await expect(fs.access(lockPath)).rejects.toThrow();
+    });
+
+    it('should throw RefreshLockTimeoutError when lock is held too long', async () => {
+      await holdLock();
+
+      const error = await createLockedBroker({ acquireTimeoutMs: 50 })
+        .getToken('TEST')
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(RefreshLockTimeoutError);
+      expect(error.code).toBe(AUTH_BROKER_ERROR_CODES.LOCK_TIMEOUT);
+      expect(error.retryable).toBe(true);
+      expect(error.lockPath).toBe(lockPath);
+      expect(mockTokenProvider.getTokens).not.toHaveBeenCalled();
+      // Foreign lock is left in place
+      await expect(fs.access(lockPath)).resolves.toBeUndefined();
+    });
+  });
+
+  describe('session writes', () => {
+    const connConfig: IConnectionConfig = {
+      serviceUrl: 'https://test.sap.com',
+      authorizationToken: 'old-token',
+    };
+    const authConfig: IAuthorizationConfig = {
+      uaaUrl: 'https://uaa.test.com',
+      uaaClientId: 'client123',
+      uaaClientSecret: 'secret123',
+      refreshToken: 'old-refresh-token',
+    };
+
+    beforeEach(() => {
+      mockSessionStore.getConnectionConfig.mockResolvedValue(connConfig);
+      mockSessionStore.getAuthorizationConfig.mockResolvedValue(authConfig);
+      mockSessionStore.setConnectionConfig.mockResolvedValue(undefined);
+      mockTokenProvider.getTokens.mockResolvedValue({
+        authorizationToken: 'new-token',
+        refreshToken: 'new-refresh-token',
+      });
+    });
+
+    it('should save session in one setSession() call when store supports it', async () => {
+      const setSession = jest.fn().mockResolvedValue(undefined);
+      Object.assign(mockSessionStore, { setSession });
+
+      await broker.getToken('TEST');
+
+      expect(setSession).toHaveBeenCalledWith(
+        'TEST',
+        expect.objectContaining({ authorizationToken: 'new-token' }),
+        expect.objectContaining({ refreshToken: 'new-refresh-token' }),
+      );
+      expect(mockSessionStore.setConnectionConfig).not.toHaveBeenCalled();
+      expect(mockSessionStore.setAuthorizationConfig).not.toHaveBeenCalled();
+    });
+
+    it('should throw StoreWriteError when setSession() fails', async () => {
+      Object.assign(mockSessionStore, {
+        setSession: jest.fn().mockRejectedValue(new Error('EACCES')),
+      });
+      const errorBroker = new AuthBroker(
+        { sessionStore: mockSessionStore, tokenProvider: mockTokenProvider },
+        undefined,
+        noOpLogger,
+      );
+
+      const error = await errorBroker.getToken('TEST').catch((e) => e);
+
+      expect(error).toBeInstanceOf(StoreWriteError);
+      expect(mockSessionStore.setConnectionConfig).not.toHaveBeenCalled();
+    });
+
+    it('should roll back connection config when authorization config save fails', async () => {
+      mockSessionStore.setAuthorizationConfig.mockRejectedValue(
+        new Error('EACCES'),
+      );
+      const errorBroker = new AuthBroker(
+        { sessionStore: mockSessionStore, tokenProvider: mockTokenProvider },
+        undefined,
+        noOpLogger,
+      );
+
+      const error = await errorBroker.getToken('TEST').catch((e) => e);
+
+      expect(error).toBeInstanceOf(StoreWriteError);
+      expect(mockSessionStore.setConnectionConfig).toHaveBeenCalledTimes(2);
+      expect(mockSessionStore.setConnectionConfig).toHaveBeenLastCalledWith(
+        'TEST',
+        connConfig,
+      );
+    });
+  });
+
+  describe('staleTokenFallback', () => {
+    const authConfig: IAuthorizationConfig = {
+      uaaUrl: 'https://uaa.test.com',
+      uaaClientId: 'client123',
+      uaaClientSecret: 'secret123',
+      refreshToken: 'refresh-token-123',
+    };
+    const networkError = Object.assign(new Error('connect ECONNREFUSED'), {
+      code: 'ECONNREFUSED',
+    });
+    let fallbackBroker: AuthBroker;
+
+    const useSessionToken = (expiresInSeconds: number) => {
+      const token = jwt({
+        exp: Math.floor(Date.now() / 1000) + expiresInSeconds,
+      });
+      mockSessionStore.getConnectionConfig.mockResolvedValue({
+        serviceUrl: 'https://test.sap.com',
+        authorizationToken: token,
+      });
+      return token;
+    };
+
+    beforeEach(() => {
+      mockSessionStore.getAuthorizationConfig.mockResolvedValue(authConfig);
+      mockServiceKeyStore.getAuthorizationConfig.mockResolvedValue(authConfig);
+      fallbackBroker = new AuthBroker(
+        {
+          serviceKeyStore: mockServiceKeyStore,
+          sessionStore: mockSessionStore,
+          tokenProvider: mockTokenProvider,
+          staleTokenFallback: true,
+        },
+        'none',
+        noOpLogger,
+      );
+    });
+
+    it('should serve valid session token when identity provider is unreachable', async () => {
+      const token = useSessionToken(600);
+      mockTokenProvider.getTokens.mockRejectedValue(networkError);
+      const onStale = jest.fn();
+      fallbackBroker.on('staleTokenServed', onStale);
+
+      expect(await fallbackBroker.getToken('TEST')).toBe(token);
+
+      expect(mockTokenProvider.getTokens).toHaveBeenCalledTimes(1);
+      expect(mockSessionStore.setConnectionConfig).not.toHaveBeenCalled();
+      expect(onStale).toHaveBeenCalledWith(
+        expect.objectContaining({
+          destination: 'TEST',
+          error: expect.any(NetworkError),
+        }),
+      );
+      expect(onStale.mock.calls[0][0].remainingSeconds).toBeGreaterThan(590);
+    });
+
+    it('should not serve token with too little validity left', async () => {
+      useSessionToken(10);
+      mockTokenProvider.getTokens.mockRejectedValue(networkError);
+
+      await expect(fallbackBroker.getToken('TEST')).rejects.toBeInstanceOf(
+        NetworkError,
+      );
+    });
+
+    it('should not fall back when provider rejects credentials', async () => {
+      useSessionToken(600);
+      mockTokenProvider.getTokens.mockRejectedValue(
+        Object.assign(new Error('invalid_grant'), { status: 401 }),
+      );
+
+      const error = await fallbackBroker.getToken('TEST').catch((e) => e);
+
+      expect(error).toBeInstanceOf(AuthBrokerError);
+      expect(error).not.toBeInstanceOf(NetworkError);
+    });
+
+    it('should not fall back when disabled', async () => {
+      useSessionToken(600);
+      mockTokenProvider.getTokens.mockRejectedValue(networkError);
+      const defaultBroker = new AuthBroker(
+        {
+          serviceKeyStore: mockServiceKeyStore,
+          sessionStore: mockSessionStore,
+          tokenProvider: mockTokenProvider,
+        },
+        'none',
+        noOpLogger,
+      );
+
+      await expect(defaultBroker.getToken('TEST')).rejects.toBeInstanceOf(
+        NetworkError,
+      );
+    });
+  });
+
+  describe('lifecycle events', () => {
+    const connConfig: IConnectionConfig = {
+      serviceUrl: 'https://test.sap.com',
+      authorizationToken: 'old-token',
+    };
+    const authConfig: IAuthorizationConfig = {
+      uaaUrl: 'https://uaa.test.com',
+      uaaClientId: 'client123',
+      uaaClientSecret: 'secret123',
+      refreshToken: 'refresh-token-123',
+    };
+
+    beforeEach(() => {
+      mockSessionStore.getConnectionConfig.mockResolvedValue(connConfig);
+      mockSessionStore.getAuthorizationConfig.mockResolvedValue(authConfig);
+      mockSessionStore.setConnectionConfig.mockResolvedValue(undefined);
+      mockSessionStore.setAuthorizationConfig.mockResolvedValue(undefined);
+    });
+
+    it('should emit sessionPersisted and tokenRefreshed for session refresh', async () => {
+      mockTokenProvider.getTokens.mockResolvedValue({
+        authorizationToken: 'new-token',
+        expiresIn: 3600,
+      });
+      const events: string[] = [];
+      const onRefreshed = jest.fn();
+      broker.on('sessionPersisted', () => events.push('sessionPersisted'));
+      broker.on('tokenRefreshed', (event) => {
+        events.push('tokenRefreshed');
+        onRefreshed(event);
+      });
+      broker.on('tokenIssued', () => events.push('tokenIssued'));
+      broker.on('interactiveAuthStarted', () =>
+        events.push('interactiveAuthStarted'),
+      );
+
+      await broker.getToken('TEST');
+
+      expect(events).toEqual(['sessionPersisted', 'tokenRefreshed']);
+      expect(onRefreshed).toHaveBeenCalledWith({
+        destination: 'TEST',
+        source: 'session',
+        tokenType: 'jwt',
+        durationMs: expect.any(Number),
+        expiresAt: expect.any(Number),
+        timestamp: expect.any(Number),
+      });
+    });
+
+    it('should emit interactiveAuthStarted and tokenIssued for service key login', async () => {
+      mockSessionStore.getConnectionConfig.mockResolvedValue({
+        serviceUrl: 'https://test.sap.com',
+      });
+      mockSessionStore.getAuthorizationConfig.mockResolvedValue(null);
+      mockServiceKeyStore.getAuthorizationConfig.mockResolvedValue(authConfig);
+      mockTokenProvider.getTokens.mockResolvedValue({
+        authorizationToken: 'new-token',
+      });
+      const onStarted = jest.fn();
+      const onIssued = jest.fn();
+      const hookedBroker = new AuthBroker(
+        {
+          serviceKeyStore: mockServiceKeyStore,
+          sessionStore: mockSessionStore,
+          tokenProvider: mockTokenProvider,
+          hooks: { interactiveAuthStarted: onStarted, tokenIssued: onIssued },
+        },
+        'headless',
+        noOpLogger,
+      );
+
+      await hookedBroker.getToken('TEST');
+
+      expect(onStarted).toHaveBeenCalledWith(
+        expect.objectContaining({
+          destination: 'TEST',
+          source: 'serviceKey',
+          browser: 'headless',
+        }),
+      );
+      expect(onIssued).toHaveBeenCalledWith(
+        expect.objectContaining({ destination: 'TEST', source: 'serviceKey' }),
+      );
+    });
+
+    it('should emit tokenServedFromCache', async () => {
+      mockTokenProvider.getTokens.mockResolvedValue({
+        authorizationToken: 'new-token',
+        expiresIn: 3600,
+      });
+      const onCache = jest.fn();
+      const cachingBroker = new AuthBroker(
+        {
+          sessionStore: mockSessionStore,
+          tokenProvider: mockTokenProvider,
+          tokenCache: true,
+          hooks: { tokenServedFromCache: onCache },
+        },
+        undefined,
+        noOpLogger,
+      );
+
+      await cachingBroker.getToken('TEST');
+      await cachingBroker.getToken('TEST');
+
+      expect(onCache).toHaveBeenCalledTimes(1);
+      expect(onCache.mock.calls[0][0].remainingSeconds).toBeGreaterThan(3500);
+    });
+
+    it('should emit interactiveAuthRequired and authFailed once per flow', async () => {
+      mockSessionStore.getAuthorizationConfig.mockResolvedValue({
+        ...authConfig,
+        refreshToken: undefined,
+      });
+      const onRequired = jest.fn();
+      const onFailed = jest.fn();
+      const noBrowserBroker = new AuthBroker(
+        {
+          sessionStore: mockSessionStore,
+          tokenProvider: mockTokenProvider,
+          allowBrowserAuth: false,
+          hooks: { interactiveAuthRequired: onRequired, authFailed: onFailed },
+        },
+        undefined,
+        noOpLogger,
+      );
+
+      await Promise.all([
+        noBrowserBroker.getToken('TEST').catch(() => undefined),
+        noBrowserBroker.getToken('TEST').catch(() => undefined),
+      ]);
+
+      expect(onRequired).toHaveBeenCalledTimes(1);
+      expect(onRequired.mock.calls[0][0].error).toBeInstanceOf(
+        InteractiveAuthRequiredError,
+      );
+      expect(onFailed).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not let a failing listener break getToken', async () => {
+      mockTokenProvider.getTokens.mockResolvedValue({
+        authorizationToken: 'new-token',
+      });
+      broker.on('tokenRefreshed', () => {
+        throw new Error('listener bug');
+      });
+
+      expect(await broker.getToken('TEST')).toBe('new-token');
+    });
+
+    it('should stop notifying listener removed with off()', async () => {
+      mockTokenProvider.getTokens.mockResolvedValue({
+        authorizationToken: 'new-token',
+      });
+      const onRefreshed = jest.fn();
+      const onPersisted = jest.fn();
+      broker.on('tokenRefreshed', onRefreshed);
+      broker.on('sessionPersisted', onPersisted);
+      broker.off('tokenRefreshed', onRefreshed);
+
+      await broker.getToken('TEST');
+
+      expect(onRefreshed).not.toHaveBeenCalled();
+      expect(onPersisted).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('interactiveAuthHandler', () => {
+    const authConfig: IAuthorizationConfig = {
+      uaaUrl: 'https://uaa.test.com',
+      uaaClientId: 'client123',
+      uaaClientSecret: 'secret123',
+    };
+
+    const createHandlerBroker = (
+      interactiveAuthHandler: jest.Mock,
+    ): AuthBroker =>
+      new AuthBroker(
+        {
+          serviceKeyStore: mockServiceKeyStore,
+          sessionStore: mockSessionStore,
+          tokenProvider: mockTokenProvider,
+          interactiveAuthHandler,
+        },
+        'none',
+        noOpLogger,
+      );
+
+    beforeEach(() => {
+      // Session without refresh token: provider may log in interactively
+      mockSessionStore.getConnectionConfig.mockResolvedValue({
+        serviceUrl: 'https://test.sap.com',
+        authorizationToken: 'old-token',
+      });
+      mockSessionStore.getAuthorizationConfig.mockResolvedValue(authConfig);
+      mockSessionStore.setConnectionConfig.mockResolvedValue(undefined);
+      mockSessionStore.setAuthorizationConfig.mockResolvedValue(undefined);
+      mockServiceKeyStore.getAuthorizationConfig.mockResolvedValue(authConfig);
+    });
+
+    it('should not call provider when handler denies', async () => {
+      const handler = jest.fn().mockResolvedValue('deny');
+
+      const error = await createHandlerBroker(handler)
+        .getToken('TEST')
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(InteractiveAuthRequiredError);
+      expect(error.code).toBe(AUTH_BROKER_ERROR_CODES.BROWSER_AUTH_REQUIRED);
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(handler).toHaveBeenCalledWith(
+        expect.objectContaining({
+          destination: 'TEST',
+          source: 'session',
+          stage: 'start',
+          browser: 'none',
+        }),
+      );
+      expect(mockTokenProvider.getTokens).not.toHaveBeenCalled();
+    });
+
+    it('should pass prompt callback to provider and forward delegate decision', async () => {
+      const handler = jest.fn().mockResolvedValue('delegate');
+      mockTokenProvider.getTokens.mockImplementation(
+        async (options: TokenRequestOptions) => {
+          const decision = await options.onInteractiveAuth?.({
+            authorizationUrl: 'https://uaa.test.com/oauth/authorize?x=1',
+          });
+          expect(decision).toBe('delegate');
+          return { authorizationToken: 'new-token' };
+        },
+      );
+
+      expect(await createHandlerBroker(handler).getToken('TEST')).toBe(
+        'new-token',
+      );
+      expect(handler).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          stage: 'prompt',
+          authorizationUrl: 'https://uaa.test.com/oauth/authorize?x=1',
+        }),
+      );
+    });
+
+    it('should report provider failure after prompt denial as InteractiveAuthRequiredError', async () => {
+      const handler = jest.fn(async ({ stage }: InteractiveAuthRequest) =>
+        stage === 'start' ? 'approve' : 'deny',
+      );
+      mockTokenProvider.getTokens.mockImplementation(
+        async (options: TokenRequestOptions) => {
+          await options.onInteractiveAuth?.({
+            deviceCode: {
+              userCode: 'ABCD-EFGH',
+              verificationUri: 'https://idp.test.com/device',
+            },
+          });
+          throw new Error('login cancelled');
+        },
+      );
+
+      const error = await createHandlerBroker(handler)
+        .getToken('TEST')
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(InteractiveAuthRequiredError);
+      // Denial is not retried via service key
+      expect(mockTokenProvider.getTokens).toHaveBeenCalledTimes(1);
+    });
+
+    it('should deny when handler throws', async () => {
+      const handler = jest.fn().mockRejectedValue(new Error('no client'));
+
+      await expect(
+        createHandlerBroker(handler).getToken('TEST'),
+      ).rejects.toBeInstanceOf(InteractiveAuthRequiredError);
+      expect(mockTokenProvider.getTokens).not.toHaveBeenCalled();
+    });
+
+    it('should not consult handler while circuit breaker is open', async () => {
+      const handler = jest.fn().mockResolvedValue('approve');
+      mockTokenProvider.getTokens.mockRejectedValue(
+        Object.assign(new Error('connect ECONNREFUSED'), {
+          code: 'ECONNREFUSED',
+        }),
+      );
+      const circuitBroker = new AuthBroker(
+        {
+          sessionStore: mockSessionStore,
+          tokenProvider: mockTokenProvider,
+          interactiveAuthHandler: handler,
+          circuitBreaker: { failureThreshold: 1, cooldownMs: 60000 },
+        },
+        'none',
+        noOpLogger,
+      );
+
+      await expect(circuitBroker.getToken('TEST')).rejects.toThrow(
+        NetworkError,
+      );
+      handler.mockClear();
+      const error = await circuitBroker.getToken('TEST').catch((e) => e);
+
+      expect(error).toBeInstanceOf(CircuitOpenError);
+      expect(handler).not.toHaveBeenCalled();
+      expect(mockTokenProvider.getTokens).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not consult handler for refresh token grants', async () => {
+      mockSessionStore.getAuthorizationConfig.mockResolvedValue({
+        ...authConfig,
+        refreshToken: 'refresh-token-123',
+      });
+      mockTokenProvider.getTokens.mockResolvedValue({
+        authorizationToken: 'new-token',
+      });
+      const handler = jest.fn();
+
+      await createHandlerBroker(handler).getToken('TEST');
+
+      expect(handler).not.toHaveBeenCalled();
+      expect(mockTokenProvider.getTokens).toHaveBeenCalledWith({
+        signal: expect.any(AbortSignal),
+      });
+    });
+  });
+
+  describe('csrf', () => {
+    const authConfig: IAuthorizationConfig = {
+      uaaUrl: 'https://uaa.test.com',
+      uaaClientId: 'client123',
+      uaaClientSecret: 'secret123',
+      refreshToken: 'refresh-token-123',
+    };
+
+    const csrfResponse = (token: string, sessionId: string) => ({
+      status: 200,
+      headers: {
+        'x-csrf-token': token,
+        'set-cookie': [`SAP_SESSIONID_ABC_100=${sessionId}; path=/; HttpOnly`],
+      },
+    });
+
+    beforeEach(() => {
+      mockSessionStore.getAuthorizationConfig.mockResolvedValue(authConfig);
+      mockSessionStore.getConnectionConfig.mockResolvedValue({
+        serviceUrl: 'https://test.sap.com/',
+        authorizationToken: 'old-token',
+        sapClient: '100',
+      });
+      mockSessionStore.setConnectionConfig.mockResolvedValue(undefined);
+      mockSessionStore.setAuthorizationConfig.mockResolvedValue(undefined);
+      mockTokenProvider.getTokens.mockResolvedValue({
+        authorizationToken: 'jwt-token',
+        authType: 'authorization_code',
+      });
+    });
+
+    it('should fetch CSRF token lazily and add it with session cookies', async () => {
+      mockedAxios.get.mockResolvedValue(csrfResponse('csrf-1', 's1'));
+
+      expect(await broker.getAuthHeaders('TEST')).not.toHaveProperty(
+        'x-csrf-token',
+      );
+      expect(mockedAxios.get).not.toHaveBeenCalled();
+
+      const headers = await broker.getAuthHeaders('TEST', { csrf: true });
+
+      expect(headers).toEqual({
+        Authorization: 'Bearer jwt-token',
+        'sap-client': '100',
+        'x-csrf-token': 'csrf-1',
+        Cookie: 'SAP_SESSIONID_ABC_100=s1',
+      });
+      expect(mockedAxios.get).toHaveBeenCalledWith(
+        'https://test.sap.com/sap/bc/adt/discovery',
+        expect.objectContaining({
+          headers: expect.objectContaining({
+            Authorization: 'Bearer jwt-token',
+            'X-CSRF-Token': 'Fetch',
+          }),
+        }),
+      );
+    });
+
+    it('should reuse cached CSRF token while auth token is unchanged', async () => {
+      mockedAxios.get.mockResolvedValue(csrfResponse('csrf-1', 's1'));
+
+      const [first, second] = await Promise.all([
+        broker.getCsrfToken('TEST'),
+        broker.getCsrfToken('TEST'),
+      ]);
+      const third = await broker.getCsrfToken('TEST');
+
+      expect([first, second, third]).toEqual(['csrf-1', 'csrf-1', 'csrf-1']);
+      expect(mockedAxios.get).toHaveBeenCalledTimes(1);
+    });
+
+    it('should refetch CSRF token after auth token changes', async () => {
+      mockedAxios.get
+        .mockResolvedValueOnce(csrfResponse('csrf-1', 's1'))
+        .mockResolvedValueOnce(csrfResponse('csrf-2', 's2'));
+
+      await broker.getCsrfToken('TEST');
+      mockTokenProvider.getTokens.mockResolvedValue({
+        authorizationToken: 'jwt-token-2',
+        authType: 'authorization_code',
+      });
+
+      expect(await broker.getCsrfToken('TEST')).toBe('csrf-2');
+      expect(mockedAxios.get).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not join CSRF fetch running with previous auth token', async () => {
+      let resolveFirst: (value: unknown) => void = () => {};
+      let firstStarted: () => void = () => {};
+      const started = new Promise<void>((resolve) => {
+        firstStarted = resolve;
+      });
+      mockedAxios.get
+        .mockImplementationOnce(() => {
+          firstStarted();
+          return new Promise((resolve) => {
+            resolveFirst = resolve;
+          });
+        })
+        .mockResolvedValueOnce(csrfResponse('csrf-2', 's2'));
+
+      const first = broker.getCsrfToken('TEST');
+      await started;
+      mockTokenProvider.getTokens.mockResolvedValue({
+        authorizationToken: 'jwt-token-2',
+        authType: 'authorization_code',
+      });
+      const second = await broker.getCsrfToken('TEST');
+      resolveFirst(csrfResponse('csrf-1', 's1'));
+
+      expect(second).toBe('csrf-2');
+      expect(await first).toBe('csrf-1');
+      expect(mockedAxios.get).toHaveBeenLastCalledWith(
+        expect.any(String),
+        expect.objectContaining({
+          headers: expect.objectContaining({
+            Authorization: 'Bearer jwt-token-2',
+          }),
+        }),
+      );
+      // Late result of the superseded fetch does not replace the current token
+      expect(await broker.getCsrfToken('TEST')).toBe('csrf-2');
+      expect(mockedAxios.get).toHaveBeenCalledTimes(2);
+    });
+
+    it('should refetch only when invalidated token is still cached', async () => {
+      mockedAxios.get
+        .mockResolvedValueOnce(csrfResponse('csrf-1', 's1'))
+        .mockResolvedValueOnce(csrfResponse('csrf-2', 's2'));
+
+      await broker.getCsrfToken('TEST');
+      broker.invalidateCsrfToken('TEST', 'already-replaced');
+      expect(await broker.getCsrfToken('TEST')).toBe('csrf-1');
+
+      broker.invalidateCsrfToken('TEST', 'csrf-1');
+      const headers = await broker.getAuthHeaders('TEST', { csrf: true });
+
+      expect(headers['x-csrf-token']).toBe('csrf-2');
+      expect(headers.Cookie).toBe('SAP_SESSIONID_ABC_100=s2');
+      expect(mockedAxios.get).toHaveBeenCalledTimes(2);
+    });
+
+    it('should merge CSRF session cookies into SAML cookies', async () => {
+      mockSessionStore.getConnectionConfig.mockResolvedValue({
+        serviceUrl: 'https://test.sap.com',
+        sessionCookies: 'old=cookie',
+        authType: 'saml',
+      });
+      mockTokenProvider.getTokens.mockResolvedValue({
+        authorizationToken: 'MYSAPSSO2=abc; SAP_SESSIONID_ABC_100=old',
+        tokenType: 'saml',
+        authType: 'authorization_code',
+      });
+      mockedAxios.get.mockResolvedValue(csrfResponse('csrf-1', 's1'));
+
+      const headers = await broker.getAuthHeaders('TEST', { csrf: true });
+
+      expect(headers.Cookie).toBe('MYSAPSSO2=abc; SAP_SESSIONID_ABC_100=s1');
+    });
+
+    it('should use configured fetch path', async () => {
+      mockedAxios.get.mockResolvedValue(csrfResponse('csrf-1', 's1'));
+      const csrfBroker = new AuthBroker(
+        {
+          sessionStore: mockSessionStore,
+          tokenProvider: mockTokenProvider,
+          csrf: { path: '/sap/bc/adt/core/discovery' },
+        },
+        undefined,
+        noOpLogger,
+      );
+
+      await csrfBroker.getCsrfToken('TEST');
+
+      expect(mockedAxios.get).toHaveBeenCalledWith(
+        'https://test.sap.com/sap/bc/adt/core/discovery',
+        expect.anything(),
+      );
+    });
+
+    it('should refresh auth token once when CSRF fetch returns 401', async () => {
+      mockedAxios.get
+        .mockResolvedValueOnce({ status: 401, headers: {} })
+        .mockResolvedValueOnce(csrfResponse('csrf-1', 's1'));
+      const refreshSpy = jest.spyOn(broker, 'refreshToken');
+
+      expect(await broker.getCsrfToken('TEST')).toBe('csrf-1');
+      expect(refreshSpy).toHaveBeenCalledWith('TEST');
+    });
+
+    it('should throw CsrfTokenError when system issues no token', async () => {
+      mockedAxios.get.mockResolvedValue({
+        status: 403,
+        headers: { 'x-csrf-token': 'Required' },
+      });
+
+      const error = await broker.getCsrfToken('TEST').catch((e) => e);
+
+      expect(error).toBeInstanceOf(CsrfTokenError);
+      expect(error.code).toBe(AUTH_BROKER_ERROR_CODES.CSRF_FETCH_FAILED);
+      expect(error.status).toBe(403);
+      expect(error.destination).toBe('TEST');
+    });
+
+    it('should throw retryable CsrfTokenError when system is unreachable', async () => {
+      mockedAxios.get.mockRejectedValue(new Error('connect ECONNREFUSED'));
+
+      const error = await broker.getCsrfToken('TEST').catch((e) => e);
+
+      expect(error).toBeInstanceOf(CsrfTokenError);
+      expect(error.retryable).toBe(true);
+    });
+
+    it('should drop CSRF token on logout', async () => {
+      mockedAxios.get
+        .mockResolvedValueOnce(csrfResponse('csrf-1', 's1'))
+        .mockResolvedValueOnce(csrfResponse('csrf-2', 's2'));
+
+      await broker.getCsrfToken('TEST');
+      await broker.logout('TEST');
+
+      expect(await broker.getCsrfToken('TEST')).toBe('csrf-2');
+    });
+  });
+
+  describe('session cookies', () => {
+    beforeEach(() => {
+      mockSessionStore.getAuthorizationConfig.mockResolvedValue(null);
+      mockSessionStore.setConnectionConfig.mockResolvedValue(undefined);
+      mockSessionStore.setAuthorizationConfig.mockResolvedValue(undefined);
+    });
+
+    it('should store SAML cookie attributes and serve cookies valid for serviceUrl', async () => {
+      mockSessionStore.getConnectionConfig.mockResolvedValue({
+        serviceUrl: 'https://test.sap.com',
+        sessionCookies: 'old=cookie',
+        authType: 'saml',
+      });
+      mockSessionStore.getAuthorizationConfig.mockResolvedValue({
+        uaaUrl: 'https://uaa.test.com',
+        uaaClientId: 'client123',
+        uaaClientSecret: 'secret123',
+      });
+      mockTokenProvider.getTokens.mockResolvedValue({
+        authorizationToken:
+          'MYSAPSSO2=abc; Domain=sap.com; Path=/; idp=1; Domain=idp.example.com',
+        tokenType: 'saml',
+        authType: 'authorization_code',
+      });
+
+      const token = await broker.getToken('TEST');
+
+      expect(token).toBe('MYSAPSSO2=abc');
+      expect(mockSessionStore.setConnectionConfig).toHaveBeenCalledWith(
+        'TEST',
+        expect.objectContaining({
+          sessionCookies: 'MYSAPSSO2=abc; idp=1',
+          sessionCookieAttributes: expect.stringContaining('idp.example.com'),
+        }),
+      );
+    });
+
+    it('should throw TokenProviderError when no SAML cookie is valid for serviceUrl', async () => {
+      mockSessionStore.getConnectionConfig.mockResolvedValue({
+        serviceUrl: 'https://test.sap.com',
+        sessionCookies: 'old=cookie',
+        authType: 'saml',
+      });
+      const authConfig: IAuthorizationConfig = {
+        uaaUrl: 'https://uaa.test.com',
+        uaaClientId: 'client123',
+        uaaClientSecret: 'secret123',
+      };
+      mockSessionStore.getAuthorizationConfig.mockResolvedValue(authConfig);
+      mockServiceKeyStore.getAuthorizationConfig.mockResolvedValue(authConfig);
+      mockTokenProvider.getTokens.mockResolvedValue({
+        authorizationToken: 'MYSAPSSO2=abc; Domain=idp.other.com',
+        tokenType: 'saml',
+        authType: 'authorization_code',
+      });
+
+      await expect(broker.getToken('TEST')).rejects.toBeInstanceOf(
+        TokenProviderError,
+      );
+      expect(mockSessionStore.setConnectionConfig).not.toHaveBeenCalled();
+    });
+
+    it('should merge response cookies into session', async () => {
+      mockSessionStore.getConnectionConfig.mockResolvedValue({
+        serviceUrl: 'https://test.sap.com',
+        sessionCookies: 'MYSAPSSO2=abc; SAP_SESSIONID_ABC_100=old',
+        authType: 'saml',
+      });
+
+      const changed = await broker.mergeSessionCookies('TEST', [
+        'SAP_SESSIONID_ABC_100=new; Path=/; HttpOnly',
+        'sap-usercontext=; Max-Age=0',
+      ]);
+
+      expect(changed).toEqual(['SAP_SESSIONID_ABC_100', 'sap-usercontext']);
+      expect(mockSessionStore.setConnectionConfig).toHaveBeenCalledWith(
+        'TEST',
+        expect.objectContaining({
+          serviceUrl: 'https://test.sap.com',
+          authType: 'saml',
+          sessionCookies: 'MYSAPSSO2=abc; SAP_SESSIONID_ABC_100=new',
+          sessionCookieAttributes: expect.stringContaining('test.sap.com'),
+        }),
+      );
+    });
+
+    it('should not touch sessions without session cookies', async () => {
+      mockSessionStore.getConnectionConfig.mockResolvedValue({
+        serviceUrl: 'https://test.sap.com',
+        authorizationToken: 'jwt-token',
+      });
+
+      const changed = await broker.mergeSessionCookies(
+        'TEST',
+        'SAP_SESSIONID_ABC_100=new; Path=/',
+      );
+
+      expect(changed).toEqual([]);
+      expect(mockSessionStore.setConnectionConfig).not.toHaveBeenCalled();
+    });
+
+    it('should throw StoreWriteError when cookies cannot be saved', async () => {
+      mockSessionStore.getConnectionConfig.mockResolvedValue({
+        serviceUrl: 'https://test.sap.com',
+        sessionCookies: 'MYSAPSSO2=abc',
+        authType: 'saml',
+      });
+      mockSessionStore.setConnectionConfig.mockRejectedValue(
+        new Error('disk full'),
+      );
+      const failingBroker = new AuthBroker(
+        { sessionStore: mockSessionStore, tokenProvider: mockTokenProvider },
+        undefined,
+        noOpLogger,
+      );
+
+      await expect(
+        failingBroker.mergeSessionCookies('TEST', 'SAP_SESSIONID_ABC_100=new'),
+      ).rejects.toBeInstanceOf(StoreWriteError);
+    });
+
+    it('should report earliest cookie expiry in token info', async () => {
+      const expiresAt = Date.now() + 600 * 1000;
+      mockSessionStore.getConnectionConfig.mockResolvedValue({
+        serviceUrl: 'https://test.sap.com',
+        ...CookieJar.parse(
+          `MYSAPSSO2=abc; Expires=${new Date(expiresAt).toISOString()}; SAP_SESSIONID_ABC_100=xyz`,
+        ).toSession(),
+        authType: 'saml',
+      });
+
+      const info = await broker.getTokenInfo('TEST');
+
+      expect(info.cookieNames).toEqual(['MYSAPSSO2', 'SAP_SESSIONID_ABC_100']);
+      expect(info.expiresAt).toBe(expiresAt);
+    });
+  });
+
+  describe('samlKeepAlive', () => {
+    const authConfig: IAuthorizationConfig = {
+      uaaUrl: 'https://uaa.test.com',
+      uaaClientId: 'client123',
+      uaaClientSecret: 'secret123',
+    };
+    let connConfig: IConnectionConfig;
+
+    beforeEach(() => {
+      connConfig = {
+        serviceUrl: 'https://test.sap.com',
+        sessionCookies: 'MYSAPSSO2=abc; SAP_SESSIONID_ABC_100=xyz',
+        authType: 'saml',
+        sapClient: '100',
+      };
+      mockSessionStore.getConnectionConfig.mockImplementation(
+        async () => connConfig,
+      );
+      mockSessionStore.getAuthorizationConfig.mockResolvedValue(authConfig);
+      mockSessionStore.setConnectionConfig.mockImplementation(
+        async (_destination: string, config: IConnectionConfig) => {
+          connConfig = config;
+        },
+      );
+      mockSessionStore.setAuthorizationConfig.mockResolvedValue(undefined);
+      mockTokenProvider.getTokens.mockResolvedValue({
+        authorizationToken: 'MYSAPSSO2=new',
+        tokenType: 'saml',
+        authType: 'authorization_code',
+        expiresIn: 3600,
+      });
+    });
+
+    it('should ping session with cookies without following redirects', async () => {
+      mockedAxios.get.mockResolvedValue({
+        status: 200,
+        data: '<app:service/>',
+        headers: {
+          'set-cookie': ['SAP_SESSIONID_ABC_100=renewed; Path=/; HttpOnly'],
+        },
+      });
+
+      const status = await broker.pingSamlSession('TEST');
+
+      expect(status).toBe('alive');
+      expect(mockedAxios.get).toHaveBeenCalledWith(
+        'https://test.sap.com/sap/bc/adt/core/discovery',
+        expect.objectContaining({
+          maxRedirects: 0,
+          headers: expect.objectContaining({
+            Cookie: 'MYSAPSSO2=abc; SAP_SESSIONID_ABC_100=xyz',
+            'sap-client': '100',
+          }),
+        }),
+      );
+      expect(connConfig.sessionCookies).toBe(
+        'MYSAPSSO2=abc; SAP_SESSIONID_ABC_100=renewed',
+      );
+    });
+
+    it('should clear session redirected to identity provider and re-authenticate on next getToken', async () => {
+      const expiredListener = jest.fn();
+      const cachingBroker = new AuthBroker(
+        {
+          sessionStore: mockSessionStore,
+          tokenProvider: mockTokenProvider,
+          tokenCache: true,
+          hooks: { samlSessionExpired: expiredListener },
+        },
+        undefined,
+        noOpLogger,
+      );
+      await cachingBroker.getToken('TEST');
+      await cachingBroker.getToken('TEST');
+      expect(mockTokenProvider.getTokens).toHaveBeenCalledTimes(1);
+      mockedAxios.get.mockResolvedValue({
+        status: 302,
+        data: '',
+        headers: {
+          location: 'https://idp.example.com/saml2/idp/sso?SAMLRequest=abc',
+        },
+      });
+
+      const status = await cachingBroker.pingSamlSession('TEST');
+
+      expect(status).toBe('expired');
+      expect(connConfig.sessionCookies).toBeUndefined();
+      expect(connConfig.serviceUrl).toBe('https://test.sap.com');
+      expect(expiredListener).toHaveBeenCalledWith(
+        expect.objectContaining({
+          destination: 'TEST',
+          reason: 'redirect to idp.example.com',
+          status: 302,
+        }),
+      );
+
+      await cachingBroker.getToken('TEST');
+      expect(mockTokenProvider.getTokens).toHaveBeenCalledTimes(2);
+    });
+
+    it('should detect SAML login form returned without redirect', async () => {
+      mockedAxios.get.mockResolvedValue({
+        status: 200,
+        data: '<form method="post" action="https://idp.example.com/sso"><input name="SAMLRequest" value="abc"/></form>',
+        headers: {},
+      });
+
+      expect(await broker.pingSamlSession('TEST')).toBe('expired');
+      expect(connConfig.sessionCookies).toBeUndefined();
+    });
+
+    it('should not emit samlSessionExpired when cookies cannot be cleared', async () => {
+      const expiredListener = jest.fn();
+      const failingBroker = new AuthBroker(
+        {
+          sessionStore: mockSessionStore,
+          tokenProvider: mockTokenProvider,
+          hooks: { samlSessionExpired: expiredListener },
+        },
+        undefined,
+        noOpLogger,
+      );
+      mockSessionStore.setConnectionConfig.mockRejectedValue(
+        new Error('disk full'),
+      );
+      mockedAxios.get.mockResolvedValue({ status: 401, data: '', headers: {} });
+
+      await expect(
+        failingBroker.pingSamlSession('TEST'),
+      ).rejects.toBeInstanceOf(StoreWriteError);
+      expect(expiredListener).not.toHaveBeenCalled();
+    });
+
+    it('should treat same-host redirect to non-login page as alive', async () => {
+      mockedAxios.get.mockResolvedValue({
+        status: 301,
+        data: '',
+        headers: { location: '/sap/bc/adt/core/discovery/' },
+      });
+
+      expect(await broker.pingSamlSession('TEST')).toBe('alive');
+      expect(mockSessionStore.setConnectionConfig).not.toHaveBeenCalled();
+    });
+
+    it('should keep session renewed while the ping was running', async () => {
+      mockedAxios.get.mockImplementation(async () => {
+        connConfig = { ...connConfig, sessionCookies: 'MYSAPSSO2=fresh' };
+        return {
+          status: 302,
+          data: '',
+          headers: { location: 'https://idp.example.com/saml2/idp/sso' },
+        };
+      });
+
+      expect(await broker.pingSamlSession('TEST')).toBe('alive');
+      expect(connConfig.sessionCookies).toBe('MYSAPSSO2=fresh');
+    });
+
+    it('should keep session when system is unreachable', async () => {
+      mockedAxios.get.mockRejectedValue(new Error('ECONNREFUSED'));
+
+      expect(await broker.pingSamlSession('TEST')).toBe('unreachable');
+      expect(mockSessionStore.setConnectionConfig).not.toHaveBeenCalled();
+    });
+
+    it('should return none for sessions without session cookies', async () => {
+      connConfig = {
+        serviceUrl: 'https://test.sap.com',
+        authorizationToken: 'jwt-token',
+      };
+
+      expect(await broker.pingSamlSession('TEST')).toBe('none');
+      expect(mockedAxios.get).not.toHaveBeenCalled();
+    });
+
+    it('should ping SAML sessions periodically until they expire', async () => {
+      jest.useFakeTimers({ doNotFake: ['setImmediate', 'nextTick'] });
+      const flushPing = () => new Promise((resolve) => setImmediate(resolve));
+      const keepAliveBroker = new AuthBroker(
+        {
+          sessionStore: mockSessionStore,
+          tokenProvider: mockTokenProvider,
+          samlKeepAlive: { intervalSeconds: 60, path: '/sap/bc/ping' },
+        },
+        undefined,
+        noOpLogger,
+      );
+      try {
+        mockedAxios.get.mockResolvedValue({
+          status: 200,
+          data: '',
+          headers: {},
+        });
+        await keepAliveBroker.getToken('TEST');
+
+        await jest.advanceTimersByTimeAsync(60_000);
+        await flushPing();
+        expect(mockedAxios.get).toHaveBeenCalledTimes(1);
+        expect(mockedAxios.get).toHaveBeenCalledWith(
+          'https://test.sap.com/sap/bc/ping',
+          expect.objectContaining({
+            headers: expect.objectContaining({ Cookie: 'MYSAPSSO2=new' }),
+          }),
+        );
+
+        mockedAxios.get.mockResolvedValue({
+          status: 401,
+          data: '',
+          headers: {},
+        });
+        await jest.advanceTimersByTimeAsync(60_000);
+        await flushPing();
+        expect(mockedAxios.get).toHaveBeenCalledTimes(2);
+        expect(connConfig.sessionCookies).toBeUndefined();
+
+        await jest.advanceTimersByTimeAsync(120_000);
+        await flushPing();
+        expect(mockedAxios.get).toHaveBeenCalledTimes(2);
+      } finally {
+        keepAliveBroker.dispose();
+        jest.useRealTimers();
+      }
+    });
+  });
+
+  describe('tokenProviderFactory', () => {
+    const authConfig: IAuthorizationConfig = {
+      uaaUrl: 'https://uaa.test.com',
+      uaaClientId: 'client123',
+      uaaClientSecret: 'secret123',
+      refreshToken: 'refresh-token-123',
+    };
+
+    it('should create broker with tokenProviderFactory and no tokenProvider', () => {
+      const factoryBroker = new AuthBroker({
+        sessionStore: mockSessionStore,
+        tokenProviderFactory: jest.fn(),
+      });
+      expect(factoryBroker).toBeInstanceOf(AuthBroker);
+    });
+
+    it('should build and cache one provider per destination', async () => {
+      const providers: Record<string, MockTokenProvider> = {};
+      const factory = jest.fn((destination: string) => {
+        const provider = {
+          getTokens: jest.fn().mockResolvedValue({
+            authorizationToken: `token-${destination}`,
+            authType: 'authorization_code',
+          }),
+          validateToken: jest.fn(),
+        } as MockTokenProvider;
+        providers[destination] = provider;
+        return provider;
+      });
+
+      mockSessionStore.getConnectionConfig.mockImplementation(
+        async (dest: string) => ({
+          serviceUrl: `https://${dest.toLowerCase()}.sap.com`,
+          authorizationToken: 'old-token',
+        }),
+      );
+      mockSessionStore.getAuthorizationConfig.mockResolvedValue(authConfig);
+      mockSessionStore.setConnectionConfig.mockResolvedValue(undefined);
+      mockSessionStore.setAuthorizationConfig.mockResolvedValue(undefined);
+
+      const factoryBroker = new AuthBroker(
+        {
+          sessionStore: mockSessionStore,
+          tokenProviderFactory: factory,
+        },
+        undefined,
+        logger,
+      );
+
+      expect(await factoryBroker.getToken('DEV')).toBe('token-DEV');
+      expect(await factoryBroker.getToken('QAS')).toBe('token-QAS');
+      expect(await factoryBroker.getToken('DEV')).toBe('token-DEV');
+
+      expect(factory).toHaveBeenCalledTimes(2);
+      expect(factory).toHaveBeenCalledWith(
+        'DEV',
+        authConfig,
+        expect.objectContaining({ serviceUrl: 'https://dev.sap.com' }),
+      );
+      expect(providers.DEV.getTokens).toHaveBeenCalledTimes(2);
+      expect(providers.QAS.getTokens).toHaveBeenCalledTimes(1);
+      expect(mockTokenProvider.getTokens).not.toHaveBeenCalled();
+    });
+
+    it('should pass service key auth config to factory in Step 0', async () => {
+      const serviceKeyAuthConfig: IAuthorizationConfig = {
+        uaaUrl: 'https://uaa.sk.com',
+        uaaClientId: 'sk-client',
+        uaaClientSecret: 'sk-secret',
+      };
+      const factory = jest.fn().mockReturnValue(mockTokenProvider);
+
+      mockSessionStore.getConnectionConfig.mockResolvedValue({
+        serviceUrl: 'https://test.sap.com',
+      });
+      mockSessionStore.getAuthorizationConfig.mockResolvedValue(null);
+      mockServiceKeyStore.getAuthorizationConfig.mockResolvedValue(
+        serviceKeyAuthConfig,
+      );
+      mockTokenProvider.getTokens.mockResolvedValue({
+        authorizationToken: 'sk-token',
+        authType: 'authorization_code',
+      });
+
+      const factoryBroker = new AuthBroker(
+        {
+          sessionStore: mockSessionStore,
+          serviceKeyStore: mockServiceKeyStore,
+          tokenProviderFactory: factory,
+        },
+        undefined,
+        logger,
+      );
+
+      expect(await factoryBroker.getToken('TEST')).toBe('sk-token');
+      expect(factory).toHaveBeenCalledWith(
+        'TEST',
+        serviceKeyAuthConfig,
+        expect.objectContaining({ serviceUrl: 'https://test.sap.com' }),
+      );
+    });
+
+    it('should build a new provider from service key auth config for fallback', async () => {
+      const serviceKeyAuthConfig: IAuthorizationConfig = {
+        uaaUrl: 'https://uaa.test.com',
+        uaaClientId: 'fresh',
+        uaaClientSecret: 'fresh-secret',
+      };
+      const factory = jest.fn(
+        (_destination: string, providerAuthConfig: IAuthorizationConfig) => ({
+          getTokens: jest.fn(async () => {
+            if (providerAuthConfig.uaaClientId === 'stale') {
+              throw new Error('invalid_client');
+            }
+            return {
+              authorizationToken: 'fresh-token',
+              authType: 'authorization_code' as const,
+            };
+          }),
+        }),
+      );
+      mockSessionStore.getConnectionConfig.mockResolvedValue({
+        serviceUrl: 'https://test.sap.com',
+        authorizationToken: 'token',
+      });
+      mockSessionStore.getAuthorizationConfig.mockResolvedValue({
+        ...authConfig,
+        uaaClientId: 'stale',
+      });
+      mockSessionStore.setConnectionConfig.mockResolvedValue(undefined);
+      mockSessionStore.setAuthorizationConfig.mockResolvedValue(undefined);
+      mockServiceKeyStore.getAuthorizationConfig.mockResolvedValue(
+        serviceKeyAuthConfig,
+      );
+
+      const factoryBroker = new AuthBroker(
+        {
+          sessionStore: mockSessionStore,
+          serviceKeyStore: mockServiceKeyStore,
+          tokenProviderFactory: factory,
+        },
+        undefined,
+        noOpLogger,
+      );
+
+      expect(await factoryBroker.getToken('TEST')).toBe('fresh-token');
+      expect(factory).toHaveBeenCalledTimes(2);
+      expect(factory).toHaveBeenLastCalledWith(
+        'TEST',
+        serviceKeyAuthConfig,
+        expect.objectContaining({ serviceUrl: 'https://test.sap.com' }),
+      );
+    });
+
+    it('should throw error if factory returns provider without getTokens', async () => {
+      mockSessionStore.getConnectionConfig.mockResolvedValue({
+        serviceUrl: 'https://test.sap.com',
+        authorizationToken: 'token',
+      });
+      mockSessionStore.getAuthorizationConfig.mockResolvedValue(authConfig);
+
+      const factoryBroker = new AuthBroker(
+        {
+          sessionStore: mockSessionStore,
+          tokenProviderFactory: () => ({}) as any,
+        },
+        undefined,
+        noOpLogger,
+      );
+
+      await expect(factoryBroker.getToken('TEST')).rejects.toThrow(
+        'tokenProviderFactory returned invalid provider',
+      );
+    });
+  });
+
   describe('createTokenRefresher', () => {
     it('should return ITokenRefresher with getToken and refreshToken methods', () => {
       const tokenRefresher = broker.createTokenRefresher('TEST');
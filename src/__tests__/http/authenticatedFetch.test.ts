@@ -0,0 +1,223 @@
+/**
+ * Tests for createAuthenticatedFetch
+ *
+ * Requests go through a fake base fetch; the broker is a mock with getAuthHeaders/refreshToken.
+ */
+
+import type { AuthHeaders, AuthHeadersOptions } from '../../AuthBroker';
+import { createAuthenticatedFetch } from '../../http';
+
+describe('createAuthenticatedFetch', () => {
+  let currentToken: string;
+  let acceptedToken: string;
+  let broker: {
+    getAuthHeaders: jest.Mock<Promise<AuthHeaders>, [string]>;
+    refreshToken: jest.Mock<Promise<string>, [string]>;
+  };
+  let baseFetch: jest.Mock<
+    Promise<Response>,
+    [string | URL | Request, RequestInit | undefined]
+  >;
+
+  const sentHeaders = (call: number): Headers =>
+    baseFetch.mock.calls[call][1]?.headers as Headers;
+
+  beforeEach(() => {
+    currentToken = 'old-token';
+    acceptedToken = 'new-token';
+    broker = {
+      getAuthHeaders: jest.fn(async (_destination: string) => ({
+        Authorization: `Bearer ${currentToken}`,
+        'sap-client': '100',
+      })),
+      refreshToken: jest.fn(async (_destination: string) => {
+        currentToken = acceptedToken;
+        return currentToken;
+      }),
+    };
+    baseFetch = jest.fn(async (_input, init) => {
+      const authorization = new Headers(init?.headers).get('Authorization');
+      return new Response('body', {
+        status: authorization === `Bearer ${acceptedToken}` ? 200 : 401,
+      });
+    });
+  });
+
+  it('should add auth headers and keep caller headers', async () => {
+    currentToken = acceptedToken;
+    const adtFetch = createAuthenticatedFetch(broker, 'TEST', {
+      fetch: baseFetch,
+    });
+
+    const response = await adtFetch(
+      'https://test.sap.com/sap/bc/adt/discovery',
+      {
+        headers: { Accept: 'application/atomsvc+xml' },
+      },
+    );
+
+    expect(response.status).toBe(200);
+    expect(sentHeaders(0).get('Authorization')).toBe('Bearer new-token');
+    expect(sentHeaders(0).get('sap-client')).toBe('100');
+    expect(sentHeaders(0).get('Accept')).toBe('application/atomsvc+xml');
+    expect(broker.refreshToken).not.toHaveBeenCalled();
+  });
+
+  it('should refresh token and retry once on 401', async () => {
+    const adtFetch = createAuthenticatedFetch(broker, 'TEST', {
+      fetch: baseFetch,
+    });
+
+    const response = await adtFetch(
+      'https://test.sap.com/sap/bc/adt/oo/classes',
+      {
+        method: 'POST',
+        body: '<class/>',
+      },
+    );
+
+    expect(response.status).toBe(200);
+    expect(broker.refreshToken).toHaveBeenCalledTimes(1);
+    expect(baseFetch).toHaveBeenCalledTimes(2);
+    expect(baseFetch.mock.calls[1][1]?.body).toBe('<class/>');
+  });
+
+  it('should return second 401 without further retries', async () => {
+    acceptedToken = 'never-accepted';
+    broker.refreshToken.mockResolvedValue('still-rejected');
+    const adtFetch = createAuthenticatedFetch(broker, 'TEST', {
+      fetch: baseFetch,
+    });
+
+    const response = await adtFetch(
+      'https://test.sap.com/sap/bc/adt/discovery',
+    );
+
+    expect(response.status).toBe(401);
+    expect(baseFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should share one refresh between requests failing at the same time', async () => {
+    const adtFetch = createAuthenticatedFetch(broker, 'TEST', {
+      fetch: baseFetch,
+    });
+
+    const responses = await Promise.all(
+      [1, 2, 3].map(() =>
+        adtFetch('https://test.sap.com/sap/bc/adt/discovery'),
+      ),
+    );
+
+    expect(responses.map((response) => response.status)).toEqual([
+      200, 200, 200,
+    ]);
+    expect(broker.refreshToken).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not retry streaming body but refresh for next request', async () => {
+    const adtFetch = createAuthenticatedFetch(broker, 'TEST', {
+      fetch: baseFetch,
+    });
+    const body = new ReadableStream({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode('<class/>'));
+        controller.close();
+      },
+    });
+
+    const response = await adtFetch(
+      'https://test.sap.com/sap/bc/adt/oo/classes',
+      {
+        method: 'POST',
+        body,
+        duplex: 'half',
+      } as RequestInit,
+    );
+
+    expect(response.status).toBe(401);
+    expect(baseFetch).toHaveBeenCalledTimes(1);
+    expect(broker.refreshToken).toHaveBeenCalledTimes(1);
+
+    const next = await adtFetch('https://test.sap.com/sap/bc/adt/discovery');
+    expect(next.status).toBe(200);
+  });
+
+  it('should not retry Request object with body', async () => {
+    const adtFetch = createAuthenticatedFetch(broker, 'TEST', {
+      fetch: baseFetch,
+    });
+
+    const response = await adtFetch(
+      new Request('https://test.sap.com/sap/bc/adt/oo/classes', {
+        method: 'POST',
+        body: '<class/>',
+      }),
+    );
+
+    expect(response.status).toBe(401);
+    expect(baseFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should send CSRF token with modifying requests and refetch it on CSRF failure', async () => {
+    currentToken = acceptedToken;
+    let csrfToken = 'csrf-1';
+    const csrfBroker = {
+      ...broker,
+      getAuthHeaders: jest.fn(
+        async (_destination: string, options?: AuthHeadersOptions) => ({
+          Authorization: `Bearer ${currentToken}`,
+          ...(options?.csrf ? { 'x-csrf-token': csrfToken } : {}),
+        }),
+      ),
+      invalidateCsrfToken: jest.fn((_destination: string, _token?: string) => {
+        csrfToken = 'csrf-2';
+      }),
+    };
+    baseFetch.mockImplementation(async (_input, init) => {
+      const headers = new Headers(init?.headers);
+      if (init?.method === 'POST' && headers.get('x-csrf-token') !== 'csrf-2') {
+        return new Response('CSRF token validation failed', {
+          status: 403,
+          headers: { 'x-csrf-token': 'Required' },
+        });
+      }
+      return new Response('ok');
+    });
+    const adtFetch = createAuthenticatedFetch(csrfBroker, 'TEST', {
+      fetch: baseFetch,
+      csrf: true,
+    });
+
+    await adtFetch('https://test.sap.com/sap/bc/adt/discovery');
+    const response = await adtFetch(
+      'https://test.sap.com/sap/bc/adt/oo/classes',
+      {
+        method: 'POST',
+        body: '<class/>',
+      },
+    );
+
+    expect(sentHeaders(0).has('x-csrf-token')).toBe(false);
+    expect(response.status).toBe(200);
+    expect(csrfBroker.invalidateCsrfToken).toHaveBeenCalledWith(
+      'TEST',
+      'csrf-1',
+    );
+    expect(sentHeaders(2).get('x-csrf-token')).toBe('csrf-2');
+    expect(broker.refreshToken).not.toHaveBeenCalled();
+  });
+
+  it('should not retry when retry is disabled', async () => {
+    const adtFetch = createAuthenticatedFetch(broker, 'TEST', {
+      fetch: baseFetch,
+      retry: false,
+    });
+
+    const response = await adtFetch(
+      'https://test.sap.com/sap/bc/adt/discovery',
+    );
+
+    expect(response.status).toBe(401);
+    expect(broker.refreshToken).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,209 @@
+/**
+ * Tests for createAxiosAuthInterceptor
+ *
+ * Requests go through a fake axios adapter; the broker is a mock with getAuthHeaders/refreshToken.
+ */
+
+import axios, {
+  AxiosError,
+  type AxiosResponse,
+  type InternalAxiosRequestConfig,
+} from 'axios';
+import type { AuthHeaders, AuthHeadersOptions } from '../../AuthBroker';
+import { createAxiosAuthInterceptor } from '../../http';
+
+// Unsigned JWT with given payload
+const jwt = (payload: object) =>
+  `e30.${Buffer.from(JSON.stringify(payload)).toString('base64url')}.sig`;
+
+describe('createAxiosAuthInterceptor', () => {
+  let currentToken: string;
+  let acceptedToken: string;
+  let broker: {
+    getAuthHeaders: jest.Mock<Promise<AuthHeaders>, [string]>;
+    refreshToken: jest.Mock<Promise<string>, [string]>;
+  };
+  let adapter: jest.Mock;
+
+  const respond = (
+    config: InternalAxiosRequestConfig,
+    status: number,
+    headers: Record<string, string> = {},
+  ): AxiosResponse => {
+    const response: AxiosResponse = {
+      data: status === 200 ? 'ok' : 'denied',
+      status,
+      statusText: '',
+      headers,
+      config,
+    };
+    if (status >= 400) {
+      throw new AxiosError(
+        `Request failed with status code ${status}`,
+        AxiosError.ERR_BAD_REQUEST,
+        config,
+        undefined,
+        response,
+      );
+    }
+    return response;
+  };
+
+  const createClient = () => {
+    const client = axios.create({ baseURL: 'https://test.sap.com', adapter });
+    createAxiosAuthInterceptor(broker, 'TEST').attach(client);
+    return client;
+  };
+
+  beforeEach(() => {
+    currentToken = 'old-token';
+    acceptedToken = 'new-token';
+    broker = {
+      getAuthHeaders: jest.fn(async (_destination: string) => ({
+        Authorization: `Bearer ${currentToken}`,
+        'sap-client': '100',
+      })),
+      refreshToken: jest.fn(async (_destination: string) => {
+        currentToken = acceptedToken;
+        return currentToken;
+      }),
+    };
+    adapter = jest.fn(async (config: InternalAxiosRequestConfig) =>
+      respond(
+        config,
+        config.headers.get('Authorization') === `Bearer ${acceptedToken}`
+          ? 200
+          : 401,
+      ),
+    );
+  });
+
+  it('should add auth headers from broker', async () => {
+    currentToken = acceptedToken;
+
+    await createClient().get('/sap/bc/adt/discovery');
+
+    const config = adapter.mock.calls[0][0] as InternalAxiosRequestConfig;
+    expect(config.headers.get('Authorization')).toBe('Bearer new-token');
+    expect(config.headers.get('sap-client')).toBe('100');
+    expect(broker.getAuthHeaders).toHaveBeenCalledWith('TEST');
+    expect(broker.refreshToken).not.toHaveBeenCalled();
+  });
+
+  it('should refresh token and retry once on 401', async () => {
+    const response = await createClient().get('/sap/bc/adt/discovery');
+
+    expect(response.status).toBe(200);
+    expect(broker.refreshToken).toHaveBeenCalledTimes(1);
+    expect(adapter).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not retry more than once', async () => {
+    acceptedToken = 'never-accepted';
+    broker.refreshToken.mockResolvedValue('still-rejected');
+
+    const error = await createClient()
+      .get('/sap/bc/adt/discovery')
+      .catch((e) => e);
+
+    expect(error.response.status).toBe(401);
+    expect(broker.refreshToken).toHaveBeenCalledTimes(1);
+    expect(adapter).toHaveBeenCalledTimes(2);
+  });
+
+  it('should share one refresh between requests failing at the same time', async () => {
+    const client = createClient();
+
+    const responses = await Promise.all(
+      [1, 2, 3, 4, 5].map(() => client.get('/sap/bc/adt/discovery')),
+    );
+
+    expect(responses.map((response) => response.status)).toEqual([
+      200, 200, 200, 200, 200,
+    ]);
+    expect(broker.refreshToken).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry 403 sent with expired JWT', async () => {
+    currentToken = jwt({ exp: Math.floor(Date.now() / 1000) - 60 });
+    acceptedToken = jwt({ exp: Math.floor(Date.now() / 1000) + 3600 });
+    adapter.mockImplementation(async (config: InternalAxiosRequestConfig) =>
+      respond(
+        config,
+        config.headers.get('Authorization') === `Bearer ${acceptedToken}`
+          ? 200
+          : 403,
+      ),
+    );
+
+    const response = await createClient().get('/sap/bc/adt/discovery');
+
+    expect(response.status).toBe(200);
+    expect(broker.refreshToken).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not treat CSRF 403 as token failure', async () => {
+    currentToken = acceptedToken;
+    adapter.mockImplementation(async (config: InternalAxiosRequestConfig) =>
+      respond(config, 403, { 'x-csrf-token': 'Required' }),
+    );
+
+    const error = await createClient()
+      .post('/sap/bc/adt/oo/classes')
+      .catch((e) => e);
+
+    expect(error.response.status).toBe(403);
+    expect(broker.refreshToken).not.toHaveBeenCalled();
+  });
+
+  it('should send CSRF token with modifying requests and refetch it on CSRF failure', async () => {
+    currentToken = acceptedToken;
+    let csrfToken = 'csrf-1';
+    const csrfBroker = {
+      ...broker,
+      getAuthHeaders: jest.fn(
+        async (_destination: string, options?: AuthHeadersOptions) => ({
+          Authorization: `Bearer ${currentToken}`,
+          ...(options?.csrf ? { 'x-csrf-token': csrfToken } : {}),
+        }),
+      ),
+      invalidateCsrfToken: jest.fn((_destination: string, _token?: string) => {
+        csrfToken = 'csrf-2';
+      }),
+    };
+    adapter.mockImplementation(async (config: InternalAxiosRequestConfig) =>
+      config.method === 'post' &&
+      config.headers.get('x-csrf-token') !== 'csrf-2'
+        ? respond(config, 403, { 'x-csrf-token': 'Required' })
+        : respond(config, 200),
+    );
+    const client = axios.create({ baseURL: 'https://test.sap.com', adapter });
+    createAxiosAuthInterceptor(csrfBroker, 'TEST', { csrf: true }).attach(
+      client,
+    );
+
+    await client.get('/sap/bc/adt/discovery');
+    const response = await client.post('/sap/bc/adt/oo/classes', '<class/>');
+
+    const sent = adapter.mock.calls.map(([config]) =>
+      (config as InternalAxiosRequestConfig).headers.get('x-csrf-token'),
+    );
+    expect(response.status).toBe(200);
+    expect(sent).toEqual([undefined, 'csrf-1', 'csrf-2']);
+    expect(csrfBroker.invalidateCsrfToken).toHaveBeenCalledWith(
+      'TEST',
+      'csrf-1',
+    );
+    expect(broker.refreshToken).not.toHaveBeenCalled();
+  });
+
+  it('should stop adding headers after detach', async () => {
+    const client = axios.create({ baseURL: 'https://test.sap.com', adapter });
+    const detach = createAxiosAuthInterceptor(broker, 'TEST').attach(client);
+    detach();
+
+    await client.get('/sap/bc/adt/discovery').catch(() => undefined);
+
+    expect(broker.getAuthHeaders).not.toHaveBeenCalled();
+  });
+});
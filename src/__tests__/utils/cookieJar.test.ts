@@ -0,0 +1,168 @@
+/**
+ * Tests for CookieJar
+ */
+
+import { CookieJar } from '../../utils/cookieJar';
+
+describe('CookieJar', () => {
+  const now = Date.parse('2026-01-01T00:00:00.000Z');
+  const serviceUrl = 'https://my-system.abap.eu10.hana.ondemand.com';
+
+  it('should parse and store plain Cookie header unchanged', () => {
+    const value = 'MYSAPSSO2=abc; sap-usercontext=sap-client=100';
+
+    const jar = CookieJar.parse(value);
+
+    expect(jar.size).toBe(2);
+    expect(jar.toSession()).toEqual({
+      sessionCookies: value,
+      sessionCookieAttributes: undefined,
+    });
+    expect(jar.getCookieHeader(serviceUrl)).toBe(value);
+  });
+
+  it('should store cookie attributes next to plain session cookies', () => {
+    const jar = CookieJar.parse(
+      'MYSAPSSO2=abc; Domain=.hana.ondemand.com; Path=/; Expires=2026-01-01T01:00:00.000Z; Secure; HttpOnly; SAP_SESSIONID_ABC_100=xyz',
+    );
+
+    const stored = jar.toSession();
+    const [sso, session] = CookieJar.fromSession(stored).getCookies(
+      undefined,
+      now,
+    );
+
+    expect(stored.sessionCookies).toBe(
+      'MYSAPSSO2=abc; SAP_SESSIONID_ABC_100=xyz',
+    );
+    expect(sso).toEqual({
+      name: 'MYSAPSSO2',
+      value: 'abc',
+      domain: 'hana.ondemand.com',
+      path: '/',
+      expiresAt: now + 3600 * 1000,
+      secure: true,
+      httpOnly: true,
+    });
+    expect(session).toEqual({ name: 'SAP_SESSIONID_ABC_100', value: 'xyz' });
+  });
+
+  it('should ignore attributes once session cookies were rewritten without them', () => {
+    const { sessionCookieAttributes } = CookieJar.parse(
+      'MYSAPSSO2=abc; Domain=other.example.com',
+    ).toSession();
+
+    const jar = CookieJar.fromSession({
+      sessionCookies: 'MYSAPSSO2=new',
+      sessionCookieAttributes,
+    });
+
+    expect(jar.getCookieHeader(serviceUrl)).toBe('MYSAPSSO2=new');
+  });
+
+  it('should keep cookies named like attributes', () => {
+    expect(
+      CookieJar.fromSession({ sessionCookies: 'path=1; secure=2; a=3' })
+        .getCookies()
+        .map((cookie) => cookie.name),
+    ).toEqual(['path', 'secure', 'a']);
+    expect(
+      CookieJar.parse('path=1; a=2; Path=/; expires=soon')
+        .getCookies()
+        .map(({ name, value, path }) => ({ name, value, path })),
+    ).toEqual([
+      { name: 'path', value: '1', path: undefined },
+      { name: 'a', value: '2', path: '/' },
+      { name: 'expires', value: 'soon', path: undefined },
+    ]);
+  });
+
+  it('should skip expired cookies and report earliest expiry', () => {
+    const jar = CookieJar.parse(
+      'old=1; Expires=2025-12-31T23:00:00.000Z; fresh=2; Expires=2026-01-01T02:00:00.000Z; session=3',
+    );
+
+    expect(jar.getCookieHeader(undefined, now)).toBe('fresh=2; session=3');
+    expect(jar.getExpiresAt()).toBe(Date.parse('2025-12-31T23:00:00.000Z'));
+    expect(jar.removeExpired(now)).toEqual(['old']);
+    expect(jar.size).toBe(2);
+  });
+
+  it('should match domain, path and scheme', () => {
+    const jar = CookieJar.parse(
+      'shared=1; Domain=ondemand.com; other=2; Domain=example.com; adt=3; Path=/sap/bc/adt; tls=4; Secure',
+    );
+
+    expect(jar.getCookieHeader(`${serviceUrl}/sap/bc/adt/discovery`)).toBe(
+      'shared=1; adt=3; tls=4',
+    );
+    expect(jar.getCookieHeader(`${serviceUrl}/sap/bc/adtx`)).toBe(
+      'shared=1; tls=4',
+    );
+    expect(jar.getCookieHeader('http://my-system.ondemand.com/')).toBe(
+      'shared=1',
+    );
+  });
+
+  it('should merge Set-Cookie headers as host-only cookies with default path', () => {
+    const jar = CookieJar.parse('MYSAPSSO2=abc; SAP_SESSIONID_ABC_100=old');
+
+    const changed = jar.setCookies(
+      [
+        'SAP_SESSIONID_ABC_100=new; path=/; secure; HttpOnly',
+        'sap-usercontext=sap-client=100',
+      ],
+      `${serviceUrl}/sap/bc/adt/discovery`,
+      now,
+    );
+
+    expect(changed).toEqual(['SAP_SESSIONID_ABC_100', 'sap-usercontext']);
+    expect(jar.getCookieHeader(`${serviceUrl}/sap/bc/adt/oo/classes`)).toBe(
+      'MYSAPSSO2=abc; SAP_SESSIONID_ABC_100=new; sap-usercontext=sap-client=100',
+    );
+    // Host-only: not sent to other hosts of the domain
+    expect(
+      jar.getCookieHeader('https://other.abap.eu10.hana.ondemand.com/'),
+    ).toBe('MYSAPSSO2=abc');
+  });
+
+  it('should remove cookies deleted by Max-Age=0 or past Expires', () => {
+    const jar = CookieJar.parse('MYSAPSSO2=abc; SAP_SESSIONID_ABC_100=xyz');
+
+    jar.setCookies(
+      [
+        'SAP_SESSIONID_ABC_100=; Max-Age=0; Path=/',
+        'MYSAPSSO2=; Expires=Thu, 01 Jan 1970 00:00:00 GMT; Path=/',
+      ],
+      serviceUrl,
+      now,
+    );
+
+    expect(jar.size).toBe(0);
+  });
+
+  it('should prefer Max-Age over Expires', () => {
+    const jar = new CookieJar();
+
+    jar.setCookies(
+      'a=1; Max-Age=60; Expires=Thu, 01 Jan 1970 00:00:00 GMT',
+      serviceUrl,
+      now,
+    );
+
+    expect(jar.getExpiresAt()).toBe(now + 60 * 1000);
+  });
+
+  it('should ignore cookies for domains the request host does not match', () => {
+    const jar = new CookieJar();
+
+    const changed = jar.setCookies(
+      'tracking=1; Domain=example.com',
+      serviceUrl,
+      now,
+    );
+
+    expect(changed).toEqual([]);
+    expect(jar.size).toBe(0);
+  });
+});
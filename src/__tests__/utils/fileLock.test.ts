@@ -0,0 +1,83 @@
+/**
+ * Tests for acquireFileLock
+ */
+
+import { promises as fs } from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { acquireFileLock } from '../../utils/fileLock';
+
+describe('acquireFileLock', () => {
+  const options = {
+    lockDir: '',
+    staleMs: 1000,
+    acquireTimeoutMs: 200,
+    retryIntervalMs: 10,
+  };
+  let lockDir: string;
+  let lockPath: string;
+
+  beforeEach(async () => {
+    lockDir = await fs.mkdtemp(path.join(os.tmpdir(), 'auth-broker-lock-'));
+    lockPath = path.join(lockDir, 'TEST.lock');
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(lockDir, { recursive: true, force: true });
+  });
+
+  it('should let only one of two waiters take over the same stale lock', async () => {
+    const staleContent = JSON.stringify({
+      id: 'crashed-process',
+      pid: process.pid,
+      hostname: os.hostname(),
+      createdAt: Date.now() - 10000,
+    });
+    await fs.writeFile(lockPath, staleContent);
+    // Second waiter judges the lock stale from what it read before the first one took it over
+    const readFile = fs.readFile.bind(fs);
+    const stat = fs.stat.bind(fs);
+    const firstWaiterLocked = async () => {
+      for (;;) {
+        const content = await readFile(lockPath, 'utf8').catch(() => '');
+        if (content && content !== staleContent) {
+          return;
+        }
+        await new Promise((resolve) => setTimeout(resolve, 5));
+      }
+    };
+    const delaySecondCheck = <A extends unknown[], R>(
+      call: (...args: A) => Promise<R>,
+    ) => {
+      let calls = 0;
+      return async (...args: A): Promise<R> => {
+        const result = await call(...args);
+        if (args[0] === lockPath && ++calls === 2) {
+          await firstWaiterLocked();
+        }
+        return result;
+      };
+    };
+    jest
+      .spyOn(fs, 'readFile')
+      .mockImplementation(delaySecondCheck(readFile) as typeof fs.readFile);
+    jest
+      .spyOn(fs, 'stat')
+      .mockImplementation(delaySecondCheck(stat) as typeof fs.stat);
+
+    const results = await Promise.allSettled([
+      acquireFileLock(lockPath, options),
+      acquireFileLock(lockPath, options),
+    ]);
+
+    const acquired = results.filter((result) => result.status === 'fulfilled');
+    expect(acquired).toHaveLength(1);
+    expect(results.find((result) => result.status === 'rejected')).toEqual({
+      status: 'rejected',
+      reason: expect.objectContaining({ code: 'ELOCKTIMEOUT' }),
+    });
+    await (acquired[0] as PromiseFulfilledResult<() => Promise<void>>).value();
+    expect(await fs.readdir(lockDir)).toEqual([]);
+  });
+});
@@ -0,0 +1,270 @@
+/**
+ * AuthBroker error codes and typed error classes
+ *
+ * Consumers can branch on `code` (stable) or `instanceof` instead of parsing messages.
+ */
+
+/**
+ * Stable error codes thrown by AuthBroker
+ */
+export const AUTH_BROKER_ERROR_CODES = {
+  /** Token provider could not reach the identity provider (ECONNREFUSED, ETIMEDOUT, ...) */
+  NETWORK_ERROR: 'NETWORK_ERROR',
+  /** Token provider rejected the auth config (missing required fields) */
+  VALIDATION_ERROR: 'VALIDATION_ERROR',
+  /** Interactive (browser) auth is needed but not allowed */
+  BROWSER_AUTH_REQUIRED: 'BROWSER_AUTH_REQUIRED',
+  /** Interactive (browser) auth was started but failed, was cancelled or timed out */
+  BROWSER_AUTH_ERROR: 'BROWSER_AUTH_ERROR',
+  /** Required configuration (serviceUrl, auth config, credentials) is missing */
+  CONFIG_MISSING: 'CONFIG_MISSING',
+  /** Token provider reported a service key problem */
+  SERVICE_KEY_ERROR: 'SERVICE_KEY_ERROR',
+  /** Session store failed to persist tokens */
+  STORE_WRITE_ERROR: 'STORE_WRITE_ERROR',
+  /** Any other token provider failure */
+  PROVIDER_ERROR: 'PROVIDER_ERROR',
+  /** Circuit breaker is open for the destination; provider was not called */
+  CIRCUIT_OPEN: 'CIRCUIT_OPEN',
+  /** Token request was aborted by the caller's AbortSignal */
+  ABORTED: 'ABORTED',
+  /** Token request did not complete within the caller's timeoutMs */
+  TIMEOUT: 'TIMEOUT',
+  /** Token lacks scopes required by the caller */
+  INSUFFICIENT_SCOPE: 'INSUFFICIENT_SCOPE',
+  /** Cross-process refresh lock was not acquired within acquireTimeoutMs */
+  LOCK_TIMEOUT: 'LOCK_TIMEOUT',
+  /** ABAP system did not issue a CSRF token */
+  CSRF_FETCH_FAILED: 'CSRF_FETCH_FAILED',
+} as const;
+
+export type AuthBrokerErrorCode =
+  (typeof AUTH_BROKER_ERROR_CODES)[keyof typeof AUTH_BROKER_ERROR_CODES];
+
+/**
+ * Common options for AuthBroker errors
+ */
+export interface AuthBrokerErrorOptions {
+  /** Destination the error relates to */
+  destination?: string;
+  /** Original error */
+  cause?: unknown;
+  /** Whether retrying the same call may succeed (default: false) */
+  retryable?: boolean;
+}
+
+/**
+ * Base error class for all AuthBroker errors
+ */
+export class AuthBrokerError extends Error {
+  readonly code: AuthBrokerErrorCode;
+  readonly destination?: string;
+  readonly retryable: boolean;
+
+  constructor(
+    message: string,
+    code: AuthBrokerErrorCode,
+    options: AuthBrokerErrorOptions = {},
+  ) {
+    super(
+      message,
+      options.cause !== undefined ? { cause: options.cause } : undefined,
+    );
+    this.name = new.target.name;
+    this.code = code;
+    this.destination = options.destination;
+    this.retryable = options.retryable ?? false;
+  }
+}
+
+/**
+ * Error thrown when the token provider cannot reach the identity provider
+ */
+export class NetworkError extends AuthBrokerError {
+  /** Underlying network error code (e.g., ECONNREFUSED) */
+  readonly networkCode?: string;
+
+  constructor(
+    message: string,
+    options: AuthBrokerErrorOptions & { networkCode?: string } = {},
+  ) {
+    super(message, AUTH_BROKER_ERROR_CODES.NETWORK_ERROR, {
+      retryable: true,
+      ...options,
+    });
+    this.networkCode = options.networkCode;
+  }
+}
+
+/**
+ * Error thrown when the token provider rejects the auth config
+ */
+export class ValidationError extends AuthBrokerError {
+  readonly missingFields: string[];
+
+  constructor(
+    message: string,
+    options: AuthBrokerErrorOptions & { missingFields?: string[] } = {},
+  ) {
+    super(message, AUTH_BROKER_ERROR_CODES.VALIDATION_ERROR, options);
+    this.missingFields = options.missingFields ?? [];
+  }
+}
+
+/**
+ * Error thrown when interactive (browser) auth is needed but not allowed
+ */
+export class InteractiveAuthRequiredError extends AuthBrokerError {
+  constructor(message: string, options: AuthBrokerErrorOptions = {}) {
+    super(message, AUTH_BROKER_ERROR_CODES.BROWSER_AUTH_REQUIRED, options);
+  }
+}
+
+/**
+ * Error thrown when interactive (browser) auth failed, was cancelled or timed out
+ */
+export class BrowserAuthError extends AuthBrokerError {
+  constructor(message: string, options: AuthBrokerErrorOptions = {}) {
+    super(message, AUTH_BROKER_ERROR_CODES.BROWSER_AUTH_ERROR, options);
+  }
+}
+
+/**
+ * Error thrown when required configuration is missing
+ */
+export class ConfigMissingError extends AuthBrokerError {
+  constructor(message: string, options: AuthBrokerErrorOptions = {}) {
+    super(message, AUTH_BROKER_ERROR_CODES.CONFIG_MISSING, options);
+  }
+}
+
+/**
+ * Error thrown when the token provider reports a service key problem
+ */
+export class ServiceKeyError extends AuthBrokerError {
+  constructor(message: string, options: AuthBrokerErrorOptions = {}) {
+    super(message, AUTH_BROKER_ERROR_CODES.SERVICE_KEY_ERROR, options);
+  }
+}
+
+/**
+ * Error thrown when the session store fails to persist tokens
+ */
+export class StoreWriteError extends AuthBrokerError {
+  constructor(message: string, options: AuthBrokerErrorOptions = {}) {
+    super(message, AUTH_BROKER_ERROR_CODES.STORE_WRITE_ERROR, options);
+  }
+}
+
+/**
+ * Error thrown for any other token provider failure
+ */
+export class TokenProviderError extends AuthBrokerError {
+  constructor(message: string, options: AuthBrokerErrorOptions = {}) {
+    super(message, AUTH_BROKER_ERROR_CODES.PROVIDER_ERROR, options);
+  }
+}
+
+/**
+ * Error thrown when the destination's circuit breaker is open
+ */
+export class CircuitOpenError extends AuthBrokerError {
+  /** When a trial request will be allowed (ms since epoch) */
+  readonly retryAt?: number;
+
+  constructor(
+    message: string,
+    options: AuthBrokerErrorOptions & { retryAt?: number } = {},
+  ) {
+    super(message, AUTH_BROKER_ERROR_CODES.CIRCUIT_OPEN, {
+      retryable: true,
+      ...options,
+    });
+    this.retryAt = options.retryAt;
+  }
+}
+
+/**
+ * Token request was aborted by the caller's AbortSignal
+ */
+export class TokenRequestAbortedError extends AuthBrokerError {
+  constructor(message: string, options: AuthBrokerErrorOptions = {}) {
+    super(message, AUTH_BROKER_ERROR_CODES.ABORTED, options);
+  }
+}
+
+/**
+ * Token request did not complete within the caller's timeoutMs
+ */
+export class TokenRequestTimeoutError extends AuthBrokerError {
+  /** Timeout that elapsed, in milliseconds */
+  readonly timeoutMs: number;
+
+  constructor(
+    message: string,
+    options: AuthBrokerErrorOptions & { timeoutMs: number },
+  ) {
+    super(message, AUTH_BROKER_ERROR_CODES.TIMEOUT, {
+      retryable: true,
+      ...options,
+    });
+    this.timeoutMs = options.timeoutMs;
+  }
+}
+
+/**
+ * Token lacks scopes required by the caller, even after re-authentication
+ */
+export class InsufficientScopeError extends AuthBrokerError {
+  /** Required scopes the token does not grant */
+  readonly missingScopes: string[];
+  /** Scopes the token grants */
+  readonly grantedScopes: string[];
+
+  constructor(
+    message: string,
+    options: AuthBrokerErrorOptions & {
+      missingScopes: string[];
+      grantedScopes: string[];
+    },
+  ) {
+    super(message, AUTH_BROKER_ERROR_CODES.INSUFFICIENT_SCOPE, options);
+    this.missingScopes = options.missingScopes;
+    this.grantedScopes = options.grantedScopes;
+  }
+}
+
+/**
+ * Another process held the destination's refresh lock longer than acquireTimeoutMs
+ */
+export class RefreshLockTimeoutError extends AuthBrokerError {
+  /** Lock file path */
+  readonly lockPath: string;
+
+  constructor(
+    message: string,
+    options: AuthBrokerErrorOptions & { lockPath: string },
+  ) {
+    super(message, AUTH_BROKER_ERROR_CODES.LOCK_TIMEOUT, {
+      retryable: true,
+      ...options,
+    });
+    this.lockPath = options.lockPath;
+  }
+}
+
+/**
+ * ABAP system did not issue a CSRF token for the destination
+ */
+export class CsrfTokenError extends AuthBrokerError {
+  /** HTTP status of the fetch request (undefined if the system was unreachable) */
+  readonly status?: number;
+
+  constructor(
+    message: string,
+    options: AuthBrokerErrorOptions & { status?: number } = {},
+  ) {
+    super(message, AUTH_BROKER_ERROR_CODES.CSRF_FETCH_FAILED, options);
+    this.status = options.status;
+  }
+}
@@ -0,0 +1,24 @@
+/**
+ * AuthBroker errors
+ */
+
+export {
+  AUTH_BROKER_ERROR_CODES,
+  AuthBrokerError,
+  type AuthBrokerErrorCode,
+  type AuthBrokerErrorOptions,
+  BrowserAuthError,
+  CircuitOpenError,
+  ConfigMissingError,
+  CsrfTokenError,
+  InsufficientScopeError,
+  InteractiveAuthRequiredError,
+  NetworkError,
+  RefreshLockTimeoutError,
+  ServiceKeyError,
+  StoreWriteError,
+  TokenProviderError,
+  TokenRequestAbortedError,
+  TokenRequestTimeoutError,
+  ValidationError,
+} from './AuthBrokerErrors';
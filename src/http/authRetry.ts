@@ -0,0 +1,150 @@
+/**
+ * Shared auth retry logic for HTTP client integrations
+ */
+
+import type { AuthBroker, AuthHeaders } from '../AuthBroker';
+import { decodeJwtPayload } from '../utils/jwt';
+
+/**
+ * Broker methods HTTP client integrations use
+ * (`invalidateCsrfToken` is needed to refetch rejected CSRF tokens)
+ */
+export type AuthHeaderBroker = Pick<
+  AuthBroker,
+  'getAuthHeaders' | 'refreshToken'
+> &
+  Partial<Pick<AuthBroker, 'invalidateCsrfToken'>>;
+
+/**
+ * Auth headers for one destination, with a single-flight refresh shared by all requests
+ */
+export interface AuthHeaderSource {
+  /**
+   * Current auth headers (via broker.getAuthHeaders)
+   * @param csrf Include CSRF token and its session cookies
+   */
+  get(csrf?: boolean): Promise<AuthHeaders>;
+  /**
+   * Headers to retry a request with after it failed authentication with `usedHeaders`.
+   * If another request already refreshed since then, returns the newer headers without
+   * refreshing again; concurrent failures share one refresh.
+   */
+  refresh(usedHeaders: AuthHeaders): Promise<AuthHeaders>;
+  /**
+   * Drop CSRF token a request was rejected with, so next get(true) fetches a new one
+   * @returns false if the broker cannot invalidate CSRF tokens (request should not be retried)
+   */
+  invalidateCsrf(usedHeaders: AuthHeaders): boolean;
+}
+
+/**
+ * Credential part of auth headers (what changes when the token is refreshed)
+ */
+function getCredential(headers: AuthHeaders): string | undefined {
+  return headers.Authorization ?? headers.Cookie;
+}
+
+/**
+ * Create auth header source for destination
+ */
+export function createAuthHeaderSource(
+  broker: AuthHeaderBroker,
+  destination: string,
+): AuthHeaderSource {
+  // Latest headers without and with CSRF token; CSRF headers carry extra session cookies,
+  // so credentials are only compared between headers of the same kind
+  let latest: AuthHeaders | undefined;
+  let latestCsrf: AuthHeaders | undefined;
+  let refreshing: Promise<AuthHeaders> | undefined;
+
+  return {
+    async get(csrf) {
+      if (csrf) {
+        latestCsrf = await broker.getAuthHeaders(destination, { csrf: true });
+        return latestCsrf;
+      }
+      latest = await broker.getAuthHeaders(destination);
+      return latest;
+    },
+    refresh(usedHeaders) {
+      if (refreshing) {
+        return refreshing;
+      }
+      const current =
+        usedHeaders['x-csrf-token'] !== undefined ? latestCsrf : latest;
+      if (current && getCredential(current) !== getCredential(usedHeaders)) {
+        return Promise.resolve(current);
+      }
+      refreshing = (async () => {
+        await broker.refreshToken(destination);
+        latest = await broker.getAuthHeaders(destination);
+        return latest;
+      })().finally(() => {
+        refreshing = undefined;
+      });
+      return refreshing;
+    },
+    invalidateCsrf(usedHeaders) {
+      if (!broker.invalidateCsrfToken) {
+        return false;
+      }
+      broker.invalidateCsrfToken(destination, usedHeaders['x-csrf-token']);
+      return true;
+    },
+  };
+}
+
+/**
+ * Whether response means the token was rejected, so re-acquiring it may help:
+ * - 401
+ * - 403 with `WWW-Authenticate` reporting an invalid/expired token, or sent with an expired Bearer JWT
+ *
+ * ADT CSRF failures (403 with `x-csrf-token: Required`) are not token failures.
+ * @param getHeader Response header lookup (case-insensitive)
+ * @param sentAuthorization Authorization header the request was sent with
+ */
+export function isAuthFailureResponse(
+  status: number,
+  getHeader: (name: string) => string | null | undefined,
+  sentAuthorization?: string,
+): boolean {
+  if (status === 401) {
+    return true;
+  }
+  if (status !== 403) {
+    return false;
+  }
+  if (isCsrfFailureResponse(status, getHeader)) {
+    return false;
+  }
+  if (/invalid_token|expired/i.test(getHeader('www-authenticate') ?? '')) {
+    return true;
+  }
+  const bearer = sentAuthorization?.match(/^Bearer\s+(.+)$/i)?.[1];
+  const exp = bearer ? decodeJwtPayload(bearer)?.exp : undefined;
+  return typeof exp === 'number' && exp * 1000 <= Date.now();
+}
+
+/**
+ * Whether response is an ADT CSRF failure (`403` with `x-csrf-token: Required`,
+ * "CSRF token validation failed"), so refetching the CSRF token may help
+ * @param getHeader Response header lookup (case-insensitive)
+ */
+export function isCsrfFailureResponse(
+  status: number,
+  getHeader: (name: string) => string | null | undefined,
+): boolean {
+  return (
+    status === 403 && getHeader('x-csrf-token')?.toLowerCase() === 'required'
+  );
+}
+
+/**
+ * Whether HTTP method modifies data and therefore needs a CSRF token
+ * @param method HTTP method (default: GET)
+ */
+export function isModifyingMethod(method: string | undefined): boolean {
+  return !['GET', 'HEAD', 'OPTIONS', 'TRACE'].includes(
+    (method ?? 'GET').toUpperCase(),
+  );
+}
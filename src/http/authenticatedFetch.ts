@@ -0,0 +1,172 @@
+/**
+ * fetch-compatible function that authenticates requests for one destination
+ */
+
+import type { AuthHeaders } from '../AuthBroker';
+import {
+  type AuthHeaderBroker,
+  createAuthHeaderSource,
+  isAuthFailureResponse,
+  isCsrfFailureResponse,
+  isModifyingMethod,
+} from './authRetry';
+
+/**
+ * Signature of global fetch
+ */
+export type FetchFunction = (
+  input: string | URL | Request,
+  init?: RequestInit,
+) => Promise<Response>;
+
+/**
+ * Options for createAuthenticatedFetch()
+ */
+export interface AuthenticatedFetchOptions {
+  /** fetch implementation requests are sent with (optional, default: global fetch) */
+  fetch?: FetchFunction;
+  /**
+   * Re-acquire token and retry once when a response signals an invalid or expired token
+   * (optional, default: true). Requests with non-replayable bodies are never retried.
+   */
+  retry?: boolean;
+  /**
+   * Send `x-csrf-token` (and the ADT session cookies it is bound to) with modifying requests
+   * (POST, PUT, PATCH, DELETE), and on `403` CSRF validation failure refetch it and retry once
+   * (optional, default: false)
+   */
+  csrf?: boolean;
+  /**
+   * Custom check whether a response is a token failure (optional).
+   * Default: 401, or 403 reporting an invalid/expired token (never ADT CSRF failures).
+   */
+  isAuthFailure?: (response: Response) => boolean;
+}
+
+/**
+ * Whether request body can be sent a second time.
+ * Streams (and Request objects carrying a body) are consumed by the first attempt.
+ */
+function isReplayable(
+  input: string | URL | Request,
+  init?: RequestInit,
+): boolean {
+  const body = init?.body;
+  if (body === undefined) {
+    return !(input instanceof Request) || input.body === null;
+  }
+  if (body === null || typeof body === 'string') {
+    return true;
+  }
+  if (
+    body instanceof ReadableStream ||
+    typeof (body as { pipe?: unknown }).pipe === 'function' ||
+    Symbol.asyncIterator in (body as object)
+  ) {
+    return false;
+  }
+  // Blob, BufferSource, FormData, URLSearchParams
+  return true;
+}
+
+/**
+ * Create a `fetch`-compatible function that adds auth headers from the broker (Bearer, Basic
+ * or SAML cookies, plus sap-client/sap-language) and, when a response signals an invalid or
+ * expired token, re-acquires the token and retries once. Requests failing at the same time
+ * share one refresh. With `csrf`, modifying requests also carry the ADT CSRF token, which is
+ * refetched and the request retried once when the system rejects it.
+ *
+ * Streaming bodies (ReadableStream, Node streams, async iterables, Request objects with a body)
+ * cannot be replayed: such a request is not retried and its failed response is returned as is,
+ * but the token is still refreshed for the next request.
+ * @param broker AuthBroker (or any object with getAuthHeaders/refreshToken)
+ * @param destination Destination name (e.g., "TRIAL")
+ * @example
+ * const adtFetch = createAuthenticatedFetch(broker, 'TRIAL');
+ * const response = await adtFetch(`${serviceUrl}/sap/bc/adt/discovery`);
+ */
+export function createAuthenticatedFetch(
+  broker: AuthHeaderBroker,
+  destination: string,
+  options: AuthenticatedFetchOptions = {},
+): FetchFunction {
+  const retry = options.retry ?? true;
+  const source = createAuthHeaderSource(broker, destination);
+
+  const send = (
+    input: string | URL | Request,
+    init: RequestInit | undefined,
+    authHeaders: AuthHeaders,
+  ) => {
+    const baseFetch = options.fetch ?? globalThis.fetch;
+    if (typeof baseFetch !== 'function') {
+      throw new Error(
+        'createAuthenticatedFetch: global fetch is not available, pass options.fetch',
+      );
+    }
+    const headers = new Headers(
+      input instanceof Request ? input.headers : undefined,
+    );
+    new Headers(init?.headers).forEach((value, name) => {
+      headers.set(name, value);
+    });
+    for (const [name, value] of Object.entries(authHeaders)) {
+      headers.set(name, value);
+    }
+    return baseFetch(input, { ...init, headers });
+  };
+
+  const isAuthFailure = (response: Response, sent: AuthHeaders) =>
+    options.isAuthFailure
+      ? options.isAuthFailure(response)
+      : isAuthFailureResponse(
+          response.status,
+          (name) => response.headers.get(name),
+          sent.Authorization,
+        );
+
+  return async (input, init) => {
+    const csrf =
+      !!options.csrf &&
+      isModifyingMethod(
+        init?.method ?? (input instanceof Request ? input.method : undefined),
+      );
+    const authHeaders = await source.get(csrf);
+    const response = await send(input, init, authHeaders);
+    if (!retry) {
+      return response;
+    }
+
+    let retryHeaders: () => Promise<AuthHeaders | undefined>;
+    if (
+      csrf &&
+      isCsrfFailureResponse(response.status, (name) =>
+        response.headers.get(name),
+      )
+    ) {
+      retryHeaders = async () =>
+        source.invalidateCsrf(authHeaders) ? source.get(true) : undefined;
+    } else if (isAuthFailure(response, authHeaders)) {
+      retryHeaders = async () => {
+        const refreshed = await source.refresh(authHeaders);
+        return csrf ? source.get(true) : refreshed;
+      };
+    } else {
+      return response;
+    }
+
+    if (!isReplayable(input, init)) {
+      // Refresh failure surfaces on the next request; this caller gets the response as is
+      await retryHeaders().catch(() => undefined);
+      return response;
+    }
+
+    const headers = await retryHeaders();
+    if (!headers) {
+      return response;
+    }
+    // Failed response is replaced by the retry: release its body
+    await response.body?.cancel().catch(() => undefined);
+    return send(input, init, headers);
+  };
+}
@@ -0,0 +1,163 @@
+/**
+ * Axios interceptors that authenticate requests for one destination
+ */
+
+import axios, {
+  type AxiosInstance,
+  type AxiosResponse,
+  type InternalAxiosRequestConfig,
+} from 'axios';
+import type { AuthHeaders } from '../AuthBroker';
+import {
+  type AuthHeaderBroker,
+  createAuthHeaderSource,
+  isAuthFailureResponse,
+  isCsrfFailureResponse,
+  isModifyingMethod,
+} from './authRetry';
+
+/**
+ * Options for createAxiosAuthInterceptor()
+ */
+export interface AxiosAuthInterceptorOptions {
+  /**
+   * Re-acquire token and retry once when a response signals an invalid or expired token
+   * (optional, default: true)
+   */
+  retry?: boolean;
+  /**
+   * Send `x-csrf-token` (and the ADT session cookies it is bound to) with modifying requests
+   * (POST, PUT, PATCH, DELETE), and on `403` CSRF validation failure refetch it and retry once
+   * (optional, default: false)
+   */
+  csrf?: boolean;
+  /**
+   * Custom check whether a failed response is a token failure (optional).
+   * Default: 401, or 403 reporting an invalid/expired token (never ADT CSRF failures).
+   */
+  isAuthFailure?: (response: AxiosResponse) => boolean;
+}
+
+/**
+ * Auth interceptors bound to a destination
+ */
+export interface AxiosAuthInterceptor {
+  /**
+   * Register request/response interceptors on axios instance
+   * @returns Function that removes them
+   */
+  attach(instance: AxiosInstance): () => void;
+}
+
+/** Marks a request config that was already retried after a token failure */
+const AUTH_RETRIED = '__authBrokerRetried';
+
+type AuthRequestConfig = InternalAxiosRequestConfig & {
+  [AUTH_RETRIED]?: boolean;
+};
+
+/**
+ * Auth headers currently set on request
+ */
+function getSentAuthHeaders(config: InternalAxiosRequestConfig): AuthHeaders {
+  const headers: AuthHeaders = {};
+  for (const name of ['Authorization', 'Cookie', 'x-csrf-token']) {
+    const value = config.headers.get(name);
+    if (typeof value === 'string') {
+      headers[name] = value;
+    }
+  }
+  return headers;
+}
+
+/**
+ * Case-insensitive header lookup for response
+ */
+function getResponseHeader(response: AxiosResponse) {
+  return (name: string): string | undefined => {
+    const value = response.headers?.[name.toLowerCase()];
+    return typeof value === 'string' ? value : undefined;
+  };
+}
+
+/**
+ * Create axios interceptors that add auth headers from the broker (Bearer, Basic or SAML
+ * cookies, plus sap-client/sap-language) and, when a response signals an invalid or expired
+ * token, re-acquire the token and retry the request once. Requests failing at the same time
+ * share one refresh, and requests sent with an already replaced token retry without refreshing.
+ * With `csrf`, modifying requests also carry the ADT CSRF token, which is refetched and the
+ * request retried once when the system rejects it.
+ * @param broker AuthBroker (or any object with getAuthHeaders/refreshToken)
+ * @param destination Destination name (e.g., "TRIAL")
+ * @example
+ * const client = axios.create({ baseURL: serviceUrl });
+ * const detach = createAxiosAuthInterceptor(broker, 'TRIAL').attach(client);
+ */
+export function createAxiosAuthInterceptor(
+  broker: AuthHeaderBroker,
+  destination: string,
+  options: AxiosAuthInterceptorOptions = {},
+): AxiosAuthInterceptor {
+  const retry = options.retry ?? true;
+  const source = createAuthHeaderSource(broker, destination);
+
+  const isAuthFailure = (response: AxiosResponse, sent: AuthHeaders) =>
+    options.isAuthFailure
+      ? options.isAuthFailure(response)
+      : isAuthFailureResponse(
+          response.status,
+          getResponseHeader(response),
+          sent.Authorization,
+        );
+
+  return {
+    attach(instance) {
+      const requestId = instance.interceptors.request.use(async (config) => {
+        const headers = await source.get(
+          !!options.csrf && isModifyingMethod(config.method),
+        );
+        for (const [name, value] of Object.entries(headers)) {
+          config.headers.set(name, value);
+        }
+        return config;
+      });
+
+      const responseId = instance.interceptors.response.use(
+        undefined,
+        async (error: unknown) => {
+          if (!retry || !axios.isAxiosError(error)) {
+            throw error;
+          }
+          const config = error.config as AuthRequestConfig | undefined;
+          if (!config || !error.response || config[AUTH_RETRIED]) {
+            throw error;
+          }
+          const sent = getSentAuthHeaders(config);
+          const response = error.response;
+          if (
+            options.csrf &&
+            sent['x-csrf-token'] !== undefined &&
+            isCsrfFailureResponse(response.status, getResponseHeader(response))
+          ) {
+            if (!source.invalidateCsrf(sent)) {
+              throw error;
+            }
+          } else if (isAuthFailure(response, sent)) {
+            await source.refresh(sent);
+          } else {
+            throw error;
+          }
+
+          config[AUTH_RETRIED] = true;
+          // Request interceptor sets the refreshed headers on the retry
+          return instance.request(config);
+        },
+      );
+
+      return () => {
+        instance.interceptors.request.eject(requestId);
+        instance.interceptors.response.eject(responseId);
+      };
+    },
+  };
+}
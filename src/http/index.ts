@@ -0,0 +1,15 @@
+/**
+ * HTTP client integrations for AuthBroker
+ */
+
+export {
+  type AuthenticatedFetchOptions,
+  createAuthenticatedFetch,
+  type FetchFunction,
+} from './authenticatedFetch';
+export type { AuthHeaderBroker } from './authRetry';
+export {
+  type AxiosAuthInterceptor,
+  type AxiosAuthInterceptorOptions,
+  createAxiosAuthInterceptor,
+} from './axiosInterceptor';
@@ -11,22 +11,108 @@ export type {
   ILogger,
   ITokenRefresher,
 } from '@mcp-abap-adt/interfaces';
-export { AuthBroker, type AuthBrokerConfig } from './AuthBroker';
+export {
+  AuthBroker,
+  type AuthBrokerConfig,
+  type AuthBrokerEventBase,
+  type AuthBrokerEventListener,
+  type AuthBrokerEventName,
+  type AuthBrokerEvents,
+  type AuthBrokerHooks,
+  type AuthFailedEvent,
+  type AuthHeaders,
+  type AuthHeadersOptions,
+  type BackgroundRefreshOptions,
+  type DestinationStatus,
+  type GetTokenOptions,
+  type InteractiveAuthHandler,
+  type InteractiveAuthRequest,
+  type InteractiveAuthRequiredEvent,
+  type InteractiveAuthStartedEvent,
+  type LogoutOptions,
+  type LogoutResult,
+  type SamlSessionExpiredEvent,
+  type SamlSessionStatus,
+  type SessionPersistedEvent,
+  type StaleTokenFallbackOptions,
+  type StaleTokenServedEvent,
+  type TokenCacheOptions,
+  type TokenExplanation,
+  type TokenInfo,
+  type TokenObtainedEvent,
+  type TokenPathStep,
+  type TokenPlanStep,
+  type TokenServedFromCacheEvent,
+  type TokenSource,
+  type TokenValueSource,
+} from './AuthBroker';
+// Typed errors thrown by AuthBroker
+export {
+  AUTH_BROKER_ERROR_CODES,
+  AuthBrokerError,
+  type AuthBrokerErrorCode,
+  type AuthBrokerErrorOptions,
+  BrowserAuthError,
+  CircuitOpenError,
+  ConfigMissingError,
+  CsrfTokenError,
+  InsufficientScopeError,
+  InteractiveAuthRequiredError,
+  NetworkError,
+  RefreshLockTimeoutError,
+  ServiceKeyError,
+  StoreWriteError,
+  TokenProviderError,
+  TokenRequestAbortedError,
+  TokenRequestTimeoutError,
+  ValidationError,
+} from './errors';
+// HTTP client integrations
+export {
+  type AuthenticatedFetchOptions,
+  type AuthHeaderBroker,
+  type AxiosAuthInterceptor,
+  type AxiosAuthInterceptorOptions,
+  createAuthenticatedFetch,
+  createAxiosAuthInterceptor,
+  type FetchFunction,
+} from './http';
 // Token provider interface
 export type {
+  InteractiveAuthDecision,
+  InteractiveAuthPrompt,
   ITokenProvider,
   ITokenResult,
+  TokenProviderFactory,
   TokenProviderOptions,
+  TokenRequestOptions,
 } from './providers';
 // Main interfaces for consumers - stores return values through these
 // These are the ONLY types consumers should use
 export type {
   IAuthorizationConfig,
   IConnectionConfig,
+  IListableStore,
   IServiceKeyStore,
   ISessionStore,
+  ITransactionalSessionStore,
 } from './stores/interfaces';
 export type { IConfig } from './types';
+export type {
+  CircuitBreakerOptions,
+  CircuitBreakerState,
+  CircuitState,
+} from './utils/circuitBreaker';
+export {
+  CookieJar,
+  type SessionCookie,
+  type StoredSessionCookies,
+} from './utils/cookieJar';
+export type { CsrfOptions } from './utils/csrf';
+export type { RefreshLockOptions } from './utils/fileLock';
+export { DEFAULT_RETRY_POLICY, type RetryPolicy } from './utils/retry';
+export type { SamlKeepAliveOptions } from './utils/samlKeepAlive';
+export { resolveSecretReference, type SecretResolver } from './utils/secrets';
 
 // Store and provider implementations are in separate packages:
 // - @mcp-abap-adt/auth-stores-btp - BTP and ABAP stores
@@ -21,3 +21,61 @@ export type {
   ITokenResult,
 };
 export type TokenProviderOptions = ITokenProviderOptions;
+
+/**
+ * Factory that builds a token provider for a single destination.
+ *
+ * Called by AuthBroker the first time a destination needs tokens, with the
+ * authorization config resolved from the session (or service key) and the
+ * session connection config. The returned provider is cached per destination.
+ */
+export type TokenProviderFactory = (
+  destination: string,
+  authConfig: IAuthorizationConfig,
+  connConfig: IConnectionConfig | null,
+) => ITokenProvider | Promise<ITokenProvider>;
+
+/**
+ * Options AuthBroker passes to `provider.getTokens()`.
+ *
+ * Providers that support cancellation may stop a pending login (e.g. stop waiting
+ * for the browser callback) when `signal` aborts. Providers whose getTokens()
+ * takes no arguments simply ignore them.
+ */
+export interface TokenRequestOptions {
+  signal?: AbortSignal;
+  /**
+   * Set when AuthBroker has an interactiveAuthHandler and the call may log in interactively,
+   * and on background refresh / allowBrowserAuth: false calls, where it always answers `deny`.
+   * Providers that support it call it with the authorization URL / device code before
+   * opening a browser or polling: on `delegate` they must not open a browser (the handler
+   * shows the URL) but keep waiting for the callback; on `deny` they must fail without login.
+   */
+  onInteractiveAuth?: (
+    prompt: InteractiveAuthPrompt,
+  ) => Promise<InteractiveAuthDecision>;
+}
+
+/**
+ * Login details a provider shows the user during interactive auth
+ */
+export interface InteractiveAuthPrompt {
+  /** Authorization code flow: URL the user opens to log in */
+  authorizationUrl?: string;
+  /** Device code flow (RFC 8628) */
+  deviceCode?: {
+    userCode: string;
+    verificationUri: string;
+    verificationUriComplete?: string;
+    /** Seconds until the device code expires */
+    expiresIn?: number;
+  };
+}
+
+/**
+ * Interactive auth handler decision:
+ * - `approve` - proceed as configured (provider opens the browser per its `browser` option)
+ * - `delegate` - proceed, but the handler displays the URL / device code; no browser is opened
+ * - `deny` - do not start interactive auth
+ */
+export type InteractiveAuthDecision = 'approve' | 'delegate' | 'deny';
@@ -6,7 +6,11 @@
  */
 
 export type {
+  InteractiveAuthDecision,
+  InteractiveAuthPrompt,
   ITokenProvider,
   ITokenResult,
+  TokenProviderFactory,
   TokenProviderOptions,
+  TokenRequestOptions,
 } from './ITokenProvider';
@@ -8,6 +8,8 @@
 export type {
   IAuthorizationConfig,
   IConnectionConfig,
+  IListableStore,
   IServiceKeyStore,
   ISessionStore,
+  ITransactionalSessionStore,
 } from './interfaces';
@@ -20,3 +20,29 @@ export type {
   IServiceKeyStore,
   ISessionStore,
 };
+
+/**
+ * Optional store capability: enumerate destinations the store knows about.
+ * Session and service key stores may implement it to support AuthBroker.listDestinations().
+ */
+export interface IListableStore {
+  /** Destination names (e.g. file names without extension) */
+  list(): Promise<string[]>;
+}
+
+/**
+ * Optional session store capability: write connection and authorization config in one
+ * transaction. AuthBroker prefers it over separate setConnectionConfig/setAuthorizationConfig
+ * calls, so a failed write never leaves a new access token paired with a stale refresh token.
+ */
+export interface ITransactionalSessionStore {
+  /**
+   * Save both configs atomically: either both are stored or neither is
+   * @param authorizationConfig Omitted when the stored authorization config must be left unchanged
+   */
+  setSession(
+    destination: string,
+    connectionConfig: IConnectionConfig,
+    authorizationConfig?: IAuthorizationConfig,
+  ): Promise<void>;
+}
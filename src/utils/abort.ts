@@ -0,0 +1,49 @@
+/**
+ * AbortSignal helpers for cancellable token requests
+ */
+
+/**
+ * Settle like promise, but reject with `signal.reason` as soon as signal aborts.
+ * The original promise keeps running; its late result or error is ignored.
+ */
+export function raceWithSignal<T>(
+  promise: Promise<T>,
+  signal?: AbortSignal,
+): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  if (signal.aborted) {
+    promise.catch(() => undefined);
+    return Promise.reject(signal.reason);
+  }
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      (value) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      },
+    );
+  });
+}
+
+/**
+ * Wait for ms, rejecting with `signal.reason` if signal aborts first
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return raceWithSignal(
+    new Promise<void>((resolve) => {
+      const timer = setTimeout(resolve, ms);
+      signal?.addEventListener('abort', () => clearTimeout(timer), {
+        once: true,
+      });
+    }),
+    signal,
+  );
+}
@@ -0,0 +1,121 @@
+/**
+ * Per-destination circuit breaker for failing identity provider endpoints
+ */
+
+/**
+ * Circuit breaker options
+ */
+export interface CircuitBreakerOptions {
+  /** Consecutive transient failures that open the circuit (default: 5) */
+  failureThreshold?: number;
+  /** Time in milliseconds the circuit stays open before a trial request (default: 30000) */
+  cooldownMs?: number;
+}
+
+export const DEFAULT_CIRCUIT_BREAKER: Required<CircuitBreakerOptions> = {
+  failureThreshold: 5,
+  cooldownMs: 30000,
+};
+
+/**
+ * Circuit state:
+ * - `closed` - requests pass through
+ * - `open` - requests fail fast until cooldown elapses
+ * - `half-open` - one trial request is allowed; its outcome closes or re-opens the circuit
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Circuit breaker snapshot for diagnostics
+ */
+export interface CircuitBreakerState {
+  state: CircuitState;
+  consecutiveFailures: number;
+  /** When the circuit was last opened (ms since epoch) */
+  openedAt?: number;
+  /** When a trial request will be allowed (ms since epoch) */
+  retryAt?: number;
+}
+
+/**
+ * Circuit breaker for a single destination
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt: number | undefined;
+  private trialInFlight = false;
+
+  constructor(private readonly options: Required<CircuitBreakerOptions>) {}
+
+  /**
+   * Whether a request may be sent now.
+   * Moves an open circuit to half-open once cooldown elapsed and lets one trial request through.
+   */
+  tryAcquire(now: number = Date.now()): boolean {
+    if (this.state === 'closed') {
+      return true;
+    }
+    if (this.state === 'open') {
+      if (now < (this.openedAt ?? 0) + this.options.cooldownMs) {
+        return false;
+      }
+      this.state = 'half-open';
+      this.trialInFlight = false;
+    }
+    if (this.trialInFlight) {
+      return false;
+    }
+    this.trialInFlight = true;
+    return true;
+  }
+
+  /**
+   * Record a request that reached the endpoint (success or non-transient failure)
+   */
+  recordSuccess(): void {
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.openedAt = undefined;
+    this.trialInFlight = false;
+  }
+
+  /**
+   * Release a trial request that was cancelled before reaching the endpoint
+   */
+  releaseTrial(): void {
+    this.trialInFlight = false;
+  }
+
+  /**
+   * Record a transient failure (endpoint unreachable or unavailable)
+   */
+  recordFailure(now: number = Date.now()): void {
+    this.consecutiveFailures++;
+    this.trialInFlight = false;
+    if (
+      this.state === 'half-open' ||
+      this.consecutiveFailures >= this.options.failureThreshold
+    ) {
+      this.state = 'open';
+      this.openedAt = now;
+    }
+  }
+
+  getState(now: number = Date.now()): CircuitBreakerState {
+    const state: CircuitState =
+      this.state === 'open' &&
+      now >= (this.openedAt ?? 0) + this.options.cooldownMs
+        ? 'half-open'
+        : this.state;
+    return {
+      state,
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt: this.openedAt,
+      retryAt:
+        this.openedAt !== undefined
+          ? this.openedAt + this.options.cooldownMs
+          : undefined,
+    };
+  }
+}
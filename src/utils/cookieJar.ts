@@ -0,0 +1,430 @@
+/**
+ * Cookie jar for SAML session cookies (`sessionCookies`)
+ */
+
+import { createHash } from 'node:crypto';
+
+/**
+ * Cookie held in a session
+ */
+export interface SessionCookie {
+  name: string;
+  value: string;
+  /** Domain the cookie is sent to (undefined: any host) */
+  domain?: string;
+  /** Only sent to `domain` itself, not its subdomains (Set-Cookie without Domain) */
+  hostOnly?: boolean;
+  /** Path prefix the cookie is sent to (undefined: any path) */
+  path?: string;
+  /** Expiry in ms since epoch (undefined: session cookie, no expiry) */
+  expiresAt?: number;
+  secure?: boolean;
+  httpOnly?: boolean;
+}
+
+/**
+ * Session cookie fields of a connection config
+ */
+export interface StoredSessionCookies {
+  /** Cookies in plain `Cookie` header format (`a=1; b=2`) */
+  sessionCookies?: string;
+  /**
+   * Domain, path, expiry and flags of the `sessionCookies` cookies (JSON, written by
+   * CookieJar.toSession()). Ignored once `sessionCookies` was changed without it.
+   */
+  sessionCookieAttributes?: string;
+}
+
+/**
+ * Stored form of `sessionCookieAttributes`
+ */
+interface StoredCookieAttributes {
+  /** Fingerprint of the `sessionCookies` value the attributes belong to */
+  cookies: string;
+  /** Attributes per cookie, in `sessionCookies` order */
+  attributes: Omit<SessionCookie, 'value'>[];
+}
+
+/**
+ * Whether a `name=value` segment after a cookie is one of its Set-Cookie attributes.
+ * Segments named like an attribute but with a value it can't have are cookies (`path=1`).
+ * @param attribute Lowercase segment name
+ * @param attrValue Segment value, undefined if the segment has no `=`
+ */
+function isCookieAttribute(
+  attribute: string,
+  attrValue: string | undefined,
+): boolean {
+  switch (attribute) {
+    case 'secure':
+    case 'httponly':
+    case 'partitioned':
+      return attrValue === undefined;
+    case 'domain':
+      return attrValue !== undefined && /^\.?[a-z0-9.-]+$/i.test(attrValue);
+    case 'path':
+      return attrValue?.startsWith('/') ?? false;
+    case 'expires':
+      return (
+        attrValue !== undefined &&
+        /\d{1,2}:\d{2}/.test(attrValue) &&
+        !Number.isNaN(Date.parse(attrValue))
+      );
+    case 'max-age':
+      return attrValue !== undefined && /^-?\d+$/.test(attrValue);
+    case 'samesite':
+      return attrValue !== undefined && /^(lax|strict|none)$/i.test(attrValue);
+    case 'priority':
+      return attrValue !== undefined && /^(low|medium|high)$/i.test(attrValue);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Split cookie string into cookies with their attributes.
+ * Accepts `Cookie` header format (`a=1; b=2`), a Set-Cookie line and Set-Cookie lines
+ * joined with `; ` (as returned by SAML token providers).
+ */
+function parseCookieString(value: string, now: number): SessionCookie[] {
+  const cookies: SessionCookie[] = [];
+  let current: SessionCookie | undefined;
+  // Max-Age takes precedence over Expires regardless of order
+  const withMaxAge = new Set<SessionCookie>();
+
+  for (const segment of value.split(';')) {
+    const separator = segment.indexOf('=');
+    const name = (
+      separator >= 0 ? segment.slice(0, separator) : segment
+    ).trim();
+    const attrValue =
+      separator >= 0 ? segment.slice(separator + 1).trim() : undefined;
+    if (!name) {
+      continue;
+    }
+    const attribute = name.toLowerCase();
+    if (!current || !isCookieAttribute(attribute, attrValue)) {
+      if (attrValue === undefined) {
+        // Bare token that is neither a cookie nor a known flag
+        continue;
+      }
+      current = { name, value: attrValue };
+      cookies.push(current);
+      continue;
+    }
+    switch (attribute) {
+      case 'domain':
+        current.domain = (attrValue as string).replace(/^\./, '').toLowerCase();
+        break;
+      case 'path':
+        current.path = attrValue;
+        break;
+      case 'expires':
+        if (!withMaxAge.has(current)) {
+          current.expiresAt = Date.parse(attrValue as string);
+        }
+        break;
+      case 'max-age': {
+        const seconds = Number.parseInt(attrValue as string, 10);
+        current.expiresAt = seconds > 0 ? now + seconds * 1000 : 0;
+        withMaxAge.add(current);
+        break;
+      }
+      case 'secure':
+        current.secure = true;
+        break;
+      case 'httponly':
+        current.httpOnly = true;
+        break;
+    }
+  }
+  return cookies;
+}
+
+/**
+ * Split `Cookie` header into cookies: every `name=value` segment is a cookie
+ */
+function parseCookieHeader(value: string): SessionCookie[] {
+  const cookies: SessionCookie[] = [];
+  for (const segment of value.split(';')) {
+    const separator = segment.indexOf('=');
+    const name = segment.slice(0, Math.max(separator, 0)).trim();
+    if (name) {
+      cookies.push({ name, value: segment.slice(separator + 1).trim() });
+    }
+  }
+  return cookies;
+}
+
+/**
+ * Fingerprint of a `sessionCookies` value, ties stored attributes to it without repeating
+ * cookie values
+ */
+function fingerprint(sessionCookies: string): string {
+  return createHash('sha256').update(sessionCookies).digest('hex').slice(0, 16);
+}
+
+/**
+ * Read `sessionCookieAttributes`, or undefined if it is missing, malformed or belongs to
+ * another `sessionCookies` value (e.g. written by a consumer that does not know the field)
+ */
+function parseStoredAttributes(
+  sessionCookies: string,
+  value: string | undefined,
+): StoredCookieAttributes['attributes'] | undefined {
+  if (!value) {
+    return undefined;
+  }
+  let stored: Partial<StoredCookieAttributes>;
+  try {
+    stored = JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+  if (
+    stored?.cookies !== fingerprint(sessionCookies) ||
+    !Array.isArray(stored.attributes)
+  ) {
+    return undefined;
+  }
+  return stored.attributes;
+}
+
+/**
+ * Whether request host matches cookie domain (RFC 6265 5.1.3)
+ */
+function domainMatches(host: string, cookie: SessionCookie): boolean {
+  if (!cookie.domain) {
+    return true;
+  }
+  if (host === cookie.domain) {
+    return true;
+  }
+  return !cookie.hostOnly && host.endsWith(`.${cookie.domain}`);
+}
+
+/**
+ * Whether request path matches cookie path (RFC 6265 5.1.4)
+ */
+function pathMatches(requestPath: string, cookiePath?: string): boolean {
+  if (!cookiePath || requestPath === cookiePath) {
+    return true;
+  }
+  return (
+    requestPath.startsWith(cookiePath) &&
+    (cookiePath.endsWith('/') || requestPath[cookiePath.length] === '/')
+  );
+}
+
+/**
+ * Default cookie path for request path (RFC 6265 5.1.4)
+ */
+function defaultPath(requestPath: string): string {
+  const lastSlash = requestPath.lastIndexOf('/');
+  return lastSlash > 0 ? requestPath.slice(0, lastSlash) : '/';
+}
+
+/**
+ * Session cookies with per-cookie domain, path and expiry.
+ *
+ * Stored in a connection config as two fields (see toSession()): `sessionCookies` stays a
+ * plain `Cookie` header (`MYSAPSSO2=abc; SAP_SESSIONID_ABC_100=xyz`) that any consumer can
+ * send as is, and `sessionCookieAttributes` holds the attributes.
+ */
+export class CookieJar {
+  private cookies: SessionCookie[] = [];
+
+  /**
+   * Parse cookie string with Set-Cookie attributes, e.g. SAML cookies returned by a token
+   * provider (`MYSAPSSO2=abc; Domain=sap.com; Path=/; SAP_SESSIONID_ABC_100=xyz`)
+   * @param value Cookie string (optional)
+   * @param now Current time in ms, for Max-Age (default: Date.now())
+   */
+  static parse(value: string | undefined, now: number = Date.now()): CookieJar {
+    const jar = new CookieJar();
+    for (const cookie of parseCookieString(value ?? '', now)) {
+      jar.set(cookie);
+    }
+    return jar;
+  }
+
+  /**
+   * Load session cookies stored by toSession(). Without matching `sessionCookieAttributes`
+   * (e.g. `sessionCookies` written by another consumer) cookies have no attributes.
+   * @param stored Connection config (or its session cookie fields)
+   */
+  static fromSession(stored: StoredSessionCookies): CookieJar {
+    const sessionCookies = stored.sessionCookies ?? '';
+    const cookies = parseCookieHeader(sessionCookies);
+    const attributes = parseStoredAttributes(
+      sessionCookies,
+      stored.sessionCookieAttributes,
+    );
+    const jar = new CookieJar();
+    cookies.forEach((cookie, index) => {
+      const cookieAttributes = attributes?.[index];
+      jar.set(
+        cookieAttributes?.name === cookie.name
+          ? { ...cookieAttributes, ...cookie }
+          : cookie,
+      );
+    });
+    return jar;
+  }
+
+  /**
+   * Number of cookies in jar (including expired ones not yet removed)
+   */
+  get size(): number {
+    return this.cookies.length;
+  }
+
+  /**
+   * Add or replace cookie (same name, domain and path)
+   */
+  set(cookie: SessionCookie): void {
+    this.cookies = this.cookies.filter(
+      (existing) =>
+        existing.name !== cookie.name ||
+        existing.domain !== cookie.domain ||
+        existing.path !== cookie.path,
+    );
+    this.cookies.push({ ...cookie });
+  }
+
+  /**
+   * Merge `Set-Cookie` response headers into jar. Cookies without Domain/Path get the request
+   * host (host-only) and default path; expired cookies (`Max-Age=0`, past `Expires`) are removed.
+   * Cookies for a domain the request host does not match are ignored.
+   * @param setCookieHeaders `Set-Cookie` header values, one per cookie
+   * @param requestUrl URL of the request the response belongs to
+   * @param now Current time in ms (default: Date.now())
+   * @returns Names of cookies that were set or removed
+   */
+  setCookies(
+    setCookieHeaders: string | string[],
+    requestUrl: string,
+    now: number = Date.now(),
+  ): string[] {
+    const url = new URL(requestUrl);
+    const host = url.hostname.toLowerCase();
+    const changed: string[] = [];
+
+    for (const header of Array.isArray(setCookieHeaders)
+      ? setCookieHeaders
+      : [setCookieHeaders]) {
+      // One Set-Cookie value holds one cookie; further name=value segments are not cookies
+      const [cookie] = parseCookieString(header, now);
+      if (!cookie) {
+        continue;
+      }
+      if (cookie.domain) {
+        if (!domainMatches(host, cookie)) {
+          continue;
+        }
+      } else {
+        cookie.domain = host;
+        cookie.hostOnly = true;
+      }
+      cookie.path ??= defaultPath(url.pathname);
+
+      // Same cookie, or same-named cookie without domain/path (e.g. from a plain Cookie header)
+      this.cookies = this.cookies.filter(
+        (existing) =>
+          existing.name !== cookie.name ||
+          (existing.domain !== undefined &&
+            existing.domain !== cookie.domain) ||
+          (existing.path !== undefined && existing.path !== cookie.path),
+      );
+      if (cookie.expiresAt === undefined || cookie.expiresAt > now) {
+        this.cookies.push(cookie);
+      }
+      changed.push(cookie.name);
+    }
+    return changed;
+  }
+
+  /**
+   * Cookies that are not expired and, if url is given, match its host, path and scheme
+   * @param url Request URL (optional)
+   * @param now Current time in ms (default: Date.now())
+   */
+  getCookies(url?: string, now: number = Date.now()): SessionCookie[] {
+    const target = url ? new URL(url) : undefined;
+    const host = target?.hostname.toLowerCase();
+    return this.cookies
+      .filter(
+        (cookie) => cookie.expiresAt === undefined || cookie.expiresAt > now,
+      )
+      .filter(
+        (cookie) =>
+          !target ||
+          (domainMatches(host as string, cookie) &&
+            pathMatches(target.pathname, cookie.path) &&
+            (!cookie.secure || target.protocol === 'https:')),
+      )
+      .map((cookie) => ({ ...cookie }));
+  }
+
+  /**
+   * `Cookie` header value for request, from getCookies()
+   * @param url Request URL (optional)
+   * @param now Current time in ms (default: Date.now())
+   */
+  getCookieHeader(url?: string, now: number = Date.now()): string {
+    return this.getCookies(url, now)
+      .map((cookie) => `${cookie.name}=${cookie.value}`)
+      .join('; ');
+  }
+
+  /**
+   * Earliest expiry among cookies with an expiry, in ms since epoch
+   * (undefined if all cookies are session cookies)
+   */
+  getExpiresAt(): number | undefined {
+    const expiries = this.cookies
+      .map((cookie) => cookie.expiresAt)
+      .filter((expiresAt): expiresAt is number => expiresAt !== undefined);
+    return expiries.length > 0 ? Math.min(...expiries) : undefined;
+  }
+
+  /**
+   * Drop expired cookies
+   * @param now Current time in ms (default: Date.now())
+   * @returns Names of removed cookies
+   */
+  removeExpired(now: number = Date.now()): string[] {
+    const expired = this.cookies.filter(
+      (cookie) => cookie.expiresAt !== undefined && cookie.expiresAt <= now,
+    );
+    this.cookies = this.cookies.filter((cookie) => !expired.includes(cookie));
+    return expired.map((cookie) => cookie.name);
+  }
+
+  /**
+   * Session cookie fields to store in a connection config: all cookies as plain `Cookie`
+   * header and, if any cookie has attributes, `sessionCookieAttributes`
+   */
+  toSession(): {
+    sessionCookies: string;
+    sessionCookieAttributes: string | undefined;
+  } {
+    const sessionCookies = this.cookies
+      .map((cookie) => `${cookie.name}=${cookie.value}`)
+      .join('; ');
+    const attributes = this.cookies.map(({ value: _value, ...rest }) => rest);
+    const hasAttributes = attributes.some(
+      (cookieAttributes) => Object.keys(cookieAttributes).length > 1,
+    );
+    const stored: StoredCookieAttributes = {
+      cookies: fingerprint(sessionCookies),
+      attributes,
+    };
+    return {
+      sessionCookies,
+      sessionCookieAttributes: hasAttributes
+        ? JSON.stringify(stored)
+        : undefined,
+    };
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * SAP ADT CSRF token fetch
+ */
+
+import axios from 'axios';
+import { CookieJar } from './cookieJar';
+
+/**
+ * CSRF token options for AuthBroker
+ */
+export interface CsrfOptions {
+  /**
+   * Path requested with `X-CSRF-Token: Fetch`, relative to the destination's serviceUrl
+   * (optional, default: "/sap/bc/adt/discovery")
+   */
+  path?: string;
+  /** Fetch request timeout in milliseconds (optional, default: 30000) */
+  timeoutMs?: number;
+}
+
+export const DEFAULT_CSRF: Required<CsrfOptions> = {
+  path: '/sap/bc/adt/discovery',
+  timeoutMs: 30000,
+};
+
+/**
+ * Result of a CSRF token fetch request
+ */
+export interface CsrfFetchResult {
+  /** HTTP status */
+  status: number;
+  /** Issued token (undefined if the response carries none) */
+  token?: string;
+  /** Cookies set by the response (name → value); the token is only valid together with them */
+  cookies: Record<string, string>;
+}
+
+/**
+ * Request CSRF token with `X-CSRF-Token: Fetch`.
+ * Never throws for HTTP error statuses; callers check `token`.
+ * @param url Absolute URL to request
+ * @param headers Auth headers to send
+ * @throws Error if the system is unreachable
+ */
+export async function requestCsrfToken(
+  url: string,
+  headers: Record<string, string>,
+  timeoutMs: number,
+): Promise<CsrfFetchResult> {
+  const response = await axios.get(url, {
+    headers: { ...headers, 'X-CSRF-Token': 'Fetch', Accept: '*/*' },
+    timeout: timeoutMs,
+    validateStatus: () => true,
+  });
+
+  const token = response.headers?.['x-csrf-token'];
+  const setCookie = response.headers?.['set-cookie'];
+  const cookieJar = new CookieJar();
+  cookieJar.setCookies(Array.isArray(setCookie) ? setCookie : [], url);
+  const cookies: Record<string, string> = {};
+  for (const cookie of cookieJar.getCookies(url)) {
+    cookies[cookie.name] = cookie.value;
+  }
+
+  return {
+    status: response.status,
+    token:
+      typeof token === 'string' && token && token.toLowerCase() !== 'required'
+        ? token
+        : undefined,
+    cookies,
+  };
+}
+
+/**
+ * Merge cookies into a `Cookie` header value; given cookies replace same-named ones
+ * @param cookieHeader Existing header value (optional)
+ */
+export function mergeCookieHeader(
+  cookieHeader: string | undefined,
+  cookies: Record<string, string>,
+): string {
+  const merged = new Map<string, string>();
+  for (const pair of (cookieHeader ?? '').split(';')) {
+    const separator = pair.indexOf('=');
+    if (separator > 0) {
+      merged.set(
+        pair.slice(0, separator).trim(),
+        pair.slice(separator + 1).trim(),
+      );
+    }
+  }
+  for (const [name, value] of Object.entries(cookies)) {
+    merged.set(name, value);
+  }
+  return Array.from(merged, ([name, value]) => `${name}=${value}`).join('; ');
+}
@@ -0,0 +1,212 @@
+/**
+ * Cross-process lock file with stale-lock detection
+ */
+
+import { randomUUID } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { sleep } from './abort';
+
+/**
+ * Refresh lock options
+ */
+export interface RefreshLockOptions {
+  /** Directory for lock files, one `<destination>.lock` per destination (default: `<tmpdir>/mcp-abap-adt-auth-broker-locks`) */
+  lockDir?: string;
+  /** Lock older than this is treated as abandoned, in milliseconds (default: 300000) */
+  staleMs?: number;
+  /** Give up waiting for the lock after this many milliseconds (default: 60000) */
+  acquireTimeoutMs?: number;
+  /** Delay between attempts to acquire the lock, in milliseconds (default: 200) */
+  retryIntervalMs?: number;
+}
+
+export const DEFAULT_REFRESH_LOCK: Required<RefreshLockOptions> = {
+  lockDir: path.join(os.tmpdir(), 'mcp-abap-adt-auth-broker-locks'),
+  staleMs: 300000,
+  acquireTimeoutMs: 60000,
+  retryIntervalMs: 200,
+};
+
+/**
+ * Lock file contents
+ */
+interface LockOwner {
+  id: string;
+  pid: number;
+  hostname: string;
+  createdAt: number;
+}
+
+/**
+ * Whether process with pid is running on this host
+ */
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error: unknown) {
+    // EPERM: process exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+/**
+ * State of an existing lock file
+ */
+type LockFileState =
+  | { state: 'held' }
+  | { state: 'released' }
+  | { state: 'stale'; content: string; mtimeMs: number };
+
+/**
+ * Check whether existing lock file is abandoned: its owner process on this host is gone,
+ * or it is older than staleMs
+ */
+async function checkLockFile(
+  lockPath: string,
+  staleMs: number,
+): Promise<LockFileState> {
+  let owner: Partial<LockOwner> | undefined;
+  let content: string;
+  let mtimeMs: number;
+  try {
+    const [fileContent, stats] = await Promise.all([
+      fs.readFile(lockPath, 'utf8'),
+      fs.stat(lockPath),
+    ]);
+    content = fileContent;
+    mtimeMs = stats.mtimeMs;
+    try {
+      owner = JSON.parse(content);
+    } catch {
+      // Partially written lock file: fall back to its mtime
+    }
+  } catch (error: unknown) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      // Lock released in the meantime: retry right away
+      return { state: 'released' };
+    }
+    return { state: 'held' };
+  }
+
+  const ownerGone =
+    owner?.hostname === os.hostname() &&
+    typeof owner.pid === 'number' &&
+    !isProcessAlive(owner.pid);
+  const createdAt = owner?.createdAt ?? mtimeMs;
+  return ownerGone || Date.now() - createdAt > staleMs
+    ? { state: 'stale', content, mtimeMs }
+    : { state: 'held' };
+}
+
+/**
+ * Remove stale lock file, unless another waiter took it over since it was checked.
+ * The lock file is first renamed to a name only this waiter uses (atomic, so of several
+ * waiters only one gets it); if it turns out to be a newer lock, it is put back.
+ * @param stale Lock file as judged stale by checkLockFile()
+ * @param ownerId Id of the waiting owner, for the unique name
+ */
+async function removeStaleLock(
+  lockPath: string,
+  stale: { content: string; mtimeMs: number },
+  ownerId: string,
+): Promise<void> {
+  const claimPath = `${lockPath}.${ownerId}.stale`;
+  try {
+    await fs.rename(lockPath, claimPath);
+  } catch (error: unknown) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      // Another waiter removed it
+      return;
+    }
+    throw error;
+  }
+
+  try {
+    const [content, stats] = await Promise.all([
+      fs.readFile(claimPath, 'utf8'),
+      fs.stat(claimPath),
+    ]);
+    if (content !== stale.content || stats.mtimeMs !== stale.mtimeMs) {
+      // Lock created by a waiter that removed the stale one first: give it back
+      await fs.link(claimPath, lockPath).catch(() => undefined);
+    }
+  } finally {
+    await fs.rm(claimPath, { force: true });
+  }
+}
+
+/**
+ * Acquire lock file, waiting while another process holds it.
+ * Stale locks (owner process gone, or older than staleMs) are removed; when several waiters
+ * find the same stale lock, only one of them removes it.
+ * @returns Function that releases the lock
+ * @throws Error with code `ELOCKTIMEOUT` if the lock is not acquired within acquireTimeoutMs
+ */
+export async function acquireFileLock(
+  lockPath: string,
+  options: Required<RefreshLockOptions>,
+  signal?: AbortSignal,
+): Promise<() => Promise<void>> {
+  await fs.mkdir(path.dirname(lockPath), { recursive: true });
+  const owner: LockOwner = {
+    id: randomUUID(),
+    pid: process.pid,
+    hostname: os.hostname(),
+    createdAt: Date.now(),
+  };
+  const deadline = Date.now() + options.acquireTimeoutMs;
+
+  for (;;) {
+    signal?.throwIfAborted();
+    try {
+      const handle = await fs.open(lockPath, 'wx');
+      try {
+        await handle.writeFile(
+          JSON.stringify({ ...owner, createdAt: Date.now() }),
+        );
+      } finally {
+        await handle.close();
+      }
+      break;
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+    }
+
+    const lockFile = await checkLockFile(lockPath, options.staleMs);
+    if (lockFile.state === 'released') {
+      continue;
+    }
+    if (lockFile.state === 'stale') {
+      await removeStaleLock(lockPath, lockFile, owner.id);
+      continue;
+    }
+    if (Date.now() >= deadline) {
+      throw Object.assign(
+        new Error(
+          `Timed out after ${options.acquireTimeoutMs}ms waiting for lock ${lockPath}`,
+        ),
+        { code: 'ELOCKTIMEOUT' },
+      );
+    }
+    await sleep(options.retryIntervalMs, signal);
+  }
+
+  return async () => {
+    try {
+      const current: Partial<LockOwner> = JSON.parse(
+        await fs.readFile(lockPath, 'utf8'),
+      );
+      // Lock may have been taken over as stale; never remove another owner's lock
+      if (current.id === owner.id) {
+        await fs.rm(lockPath, { force: true });
+      }
+    } catch {
+      // Lock already gone
+    }
+  };
+}
@@ -0,0 +1,86 @@
+/**
+ * JWT decoding for diagnostics (no signature verification)
+ */
+
+/**
+ * JWT payload claims used by AuthBroker (XSUAA / OIDC)
+ */
+export interface JwtPayload {
+  iss?: string;
+  sub?: string;
+  aud?: string | string[];
+  iat?: number;
+  exp?: number;
+  /** XSUAA user name */
+  user_name?: string;
+  email?: string;
+  /** XSUAA client id */
+  client_id?: string;
+  /** OAuth client id (XSUAA `cid`, OIDC `azp`) */
+  cid?: string;
+  azp?: string;
+  /** XSUAA identity zone id */
+  zid?: string;
+  /** Azure AD / OIDC tenant id */
+  tid?: string;
+  /** XSUAA scopes (array) */
+  scope?: string[] | string;
+  /** OIDC scopes (space-separated) */
+  scp?: string[] | string;
+  ext_attr?: {
+    zdn?: string;
+    subaccountid?: string;
+  };
+  [claim: string]: unknown;
+}
+
+/**
+ * Decode JWT payload without verifying the signature
+ * @param token Token string
+ * @returns Payload claims, or undefined if token is not a JWT
+ */
+export function decodeJwtPayload(token: string): JwtPayload | undefined {
+  const parts = token.split('.');
+  if (parts.length !== 3 || !parts[1]) {
+    return undefined;
+  }
+  try {
+    const payload = JSON.parse(
+      Buffer.from(parts[1], 'base64url').toString('utf8'),
+    );
+    return payload !== null && typeof payload === 'object'
+      ? (payload as JwtPayload)
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Get scopes from JWT payload (`scope` array/string or OIDC `scp`)
+ */
+export function getJwtScopes(payload: JwtPayload): string[] {
+  const scopes = payload.scope ?? payload.scp;
+  if (Array.isArray(scopes)) {
+    return scopes.filter((scope) => typeof scope === 'string');
+  }
+  return typeof scopes === 'string' ? scopes.split(' ').filter(Boolean) : [];
+}
+
+/**
+ * Get required scopes missing from granted scopes.
+ * A required scope starting with `$XSAPPNAME.` matches a granted scope with any
+ * XSUAA application prefix (e.g. `$XSAPPNAME.Display` matches `myapp!t123.Display`).
+ */
+export function getMissingScopes(
+  grantedScopes: string[],
+  requiredScopes: string[],
+): string[] {
+  return requiredScopes.filter((required) => {
+    if (required.startsWith('$XSAPPNAME.')) {
+      const suffix = required.slice('$XSAPPNAME'.length);
+      return !grantedScopes.some((scope) => scope.endsWith(suffix));
+    }
+    return !grantedScopes.includes(required);
+  });
+}
@@ -0,0 +1,89 @@
+/**
+ * Retry policy for transient token provider failures
+ */
+
+/**
+ * Retry policy options
+ */
+export interface RetryPolicy {
+  /** Maximum number of attempts including the first one (default: 3) */
+  attempts?: number;
+  /** Delay before the first retry in milliseconds (default: 500) */
+  initialDelayMs?: number;
+  /** Upper bound for a single delay in milliseconds (default: 10000) */
+  maxDelayMs?: number;
+  /** Multiplier applied to the delay after each retry (default: 2) */
+  backoffFactor?: number;
+  /** Random jitter as a fraction of the delay, 0..1 (default: 0.2) */
+  jitter?: number;
+  /** Error codes treated as transient (default: ECONNREFUSED, ETIMEDOUT, ENOTFOUND, ECONNRESET, EAI_AGAIN) */
+  retryableCodes?: string[];
+  /** HTTP statuses treated as transient (default: 429, 502, 503, 504) */
+  retryableStatuses?: number[];
+}
+
+export const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+  attempts: 3,
+  initialDelayMs: 500,
+  maxDelayMs: 10000,
+  backoffFactor: 2,
+  jitter: 0.2,
+  retryableCodes: [
+    'ECONNREFUSED',
+    'ETIMEDOUT',
+    'ENOTFOUND',
+    'ECONNRESET',
+    'EAI_AGAIN',
+  ],
+  retryableStatuses: [429, 502, 503, 504],
+};
+
+/**
+ * Get HTTP status from error (axios-style `response.status`, or `status`/`statusCode`)
+ */
+export function getErrorStatus(error: unknown): number | undefined {
+  if (error === null || typeof error !== 'object') {
+    return undefined;
+  }
+  const candidate = error as {
+    status?: unknown;
+    statusCode?: unknown;
+    response?: { status?: unknown };
+  };
+  const status =
+    candidate.response?.status ?? candidate.status ?? candidate.statusCode;
+  return typeof status === 'number' ? status : undefined;
+}
+
+/**
+ * Whether error is transient according to policy (by error code or HTTP status)
+ */
+export function isRetryableError(
+  error: unknown,
+  policy: Required<RetryPolicy>,
+): boolean {
+  if (error === null || typeof error !== 'object') {
+    return false;
+  }
+  const code = (error as { code?: unknown }).code;
+  if (typeof code === 'string' && policy.retryableCodes.includes(code)) {
+    return true;
+  }
+  const status = getErrorStatus(error);
+  return status !== undefined && policy.retryableStatuses.includes(status);
+}
+
+/**
+ * Delay before retry number `retry` (1-based), with exponential backoff and jitter
+ */
+export function getRetryDelay(
+  retry: number,
+  policy: Required<RetryPolicy>,
+): number {
+  const base = Math.min(
+    policy.initialDelayMs * policy.backoffFactor ** (retry - 1),
+    policy.maxDelayMs,
+  );
+  const spread = base * policy.jitter;
+  return Math.max(0, Math.round(base - spread + Math.random() * spread * 2));
+}
@@ -0,0 +1,54 @@
+/**
+ * Refresh token revocation at the UAA / OIDC provider
+ */
+
+import type { IAuthorizationConfig } from '@mcp-abap-adt/interfaces';
+import axios from 'axios';
+
+/**
+ * Revoke refresh token.
+ *
+ * - With `revocationUrl`: RFC 7009 `POST token=<refresh token>&token_type_hint=refresh_token`,
+ *   authenticated with the client id/secret (OIDC providers, e.g. Keycloak)
+ * - Otherwise: UAA `DELETE {uaaUrl}/oauth/token/revoke/{refresh token}`, authenticated with
+ *   the user's access token when available, else with the client id/secret
+ *
+ * @throws Error if the endpoint rejects the request or is unreachable
+ */
+export async function revokeRefreshToken(
+  authConfig: IAuthorizationConfig,
+  refreshToken: string,
+  accessToken?: string,
+  revocationUrl?: string,
+): Promise<void> {
+  const clientAuth = {
+    username: authConfig.uaaClientId,
+    password: authConfig.uaaClientSecret,
+  };
+
+  if (revocationUrl) {
+    await axios.post(
+      revocationUrl,
+      new URLSearchParams({
+        token: refreshToken,
+        token_type_hint: 'refresh_token',
+      }).toString(),
+      {
+        auth: clientAuth,
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      },
+    );
+    return;
+  }
+
+  if (!authConfig.uaaUrl) {
+    throw new Error('uaaUrl is required to revoke refresh token');
+  }
+  const uaaUrl = authConfig.uaaUrl.replace(/\/+$/, '');
+  await axios.delete(
+    `${uaaUrl}/oauth/token/revoke/${encodeURIComponent(refreshToken)}`,
+    accessToken
+      ? { headers: { Authorization: `Bearer ${accessToken}` } }
+      : { auth: clientAuth },
+  );
+}
@@ -0,0 +1,121 @@
+/**
+ * SAML session keep-alive ping
+ */
+
+import axios from 'axios';
+
+/**
+ * SAML session keep-alive options for AuthBroker
+ */
+export interface SamlKeepAliveOptions {
+  /** Ping the session every this many seconds (optional, default: 300) */
+  intervalSeconds?: number;
+  /**
+   * Lightweight ADT path requested with the session cookies, relative to the destination's
+   * serviceUrl (optional, default: "/sap/bc/adt/core/discovery")
+   */
+  path?: string;
+  /** Ping request timeout in milliseconds (optional, default: 30000) */
+  timeoutMs?: number;
+  /**
+   * Only keep alive destinations used by getToken() within this many seconds
+   * (optional, default: 3600). Idle sessions are left to expire.
+   */
+  idleTimeoutSeconds?: number;
+}
+
+export const DEFAULT_SAML_KEEP_ALIVE: Required<SamlKeepAliveOptions> = {
+  intervalSeconds: 300,
+  path: '/sap/bc/adt/core/discovery',
+  timeoutMs: 30000,
+  idleTimeoutSeconds: 3600,
+};
+
+/**
+ * Result of a session ping request
+ */
+export interface SessionPingResult {
+  /** HTTP status */
+  status: number;
+  /** Why the session is considered expired (undefined: session is alive) */
+  expiredReason?: string;
+  /** `Location` header of a redirect response */
+  location?: string;
+  /** `Set-Cookie` header values of the response */
+  setCookie: string[];
+}
+
+/** Login-looking path of a redirect target (IdP or SAP logon page) */
+const LOGIN_PATH_PATTERN = /saml|login|logon|\/sso\b/i;
+
+/**
+ * Why a ping response means the SAML session is gone, or undefined if it is alive.
+ * Expired: 401, a redirect to another host or to a login page, or an auto-submit form
+ * carrying a `SAMLRequest` (IdP login started without an HTTP redirect).
+ * @param url URL of the ping request
+ */
+export function detectSessionExpiry(
+  url: string,
+  status: number,
+  location: string | undefined,
+  body: string,
+): string | undefined {
+  if (status === 401) {
+    return 'HTTP 401';
+  }
+  if (status >= 300 && status < 400 && location) {
+    let target: URL;
+    try {
+      target = new URL(location, url);
+    } catch {
+      return `redirect to ${location}`;
+    }
+    if (target.host !== new URL(url).host) {
+      return `redirect to ${target.host}`;
+    }
+    if (LOGIN_PATH_PATTERN.test(target.pathname)) {
+      return `redirect to ${target.pathname}`;
+    }
+    return undefined;
+  }
+  if (/SAMLRequest/.test(body)) {
+    return 'SAML login page returned';
+  }
+  return undefined;
+}
+
+/**
+ * Request url with session cookies without following redirects.
+ * Never throws for HTTP error statuses; callers check `expiredReason`.
+ * @param url Absolute URL to request
+ * @param headers Headers to send (`Cookie`, `sap-client`)
+ * @throws Error if the system is unreachable
+ */
+export async function requestSessionPing(
+  url: string,
+  headers: Record<string, string>,
+  timeoutMs: number,
+): Promise<SessionPingResult> {
+  const response = await axios.get(url, {
+    headers: { ...headers, Accept: '*/*' },
+    timeout: timeoutMs,
+    maxRedirects: 0,
+    responseType: 'text',
+    validateStatus: () => true,
+  });
+
+  const location = response.headers?.location;
+  const setCookie = response.headers?.['set-cookie'];
+  const body = typeof response.data === 'string' ? response.data : '';
+  return {
+    status: response.status,
+    expiredReason: detectSessionExpiry(
+      url,
+      response.status,
+      typeof location === 'string' ? location : undefined,
+      body,
+    ),
+    location: typeof location === 'string' ? location : undefined,
+    setCookie: Array.isArray(setCookie) ? setCookie : [],
+  };
+}
@@ -0,0 +1,56 @@
+/**
+ * Secret reference resolution for credentials stored in sessions or service keys
+ */
+
+import { promises as fs } from 'node:fs';
+
+/**
+ * Resolves a stored credential value (plain value or secret reference) to the actual secret
+ */
+export type SecretResolver = (
+  value: string,
+  destination: string,
+) => string | Promise<string>;
+
+const ENV_PREFIX = 'env:';
+const FILE_PREFIX = 'file:';
+
+/**
+ * Default secret resolver.
+ * Supports references instead of plaintext:
+ * - `env:NAME` - value of environment variable NAME
+ * - `file:/path/to/secret` - file content (trailing newline trimmed)
+ * Any other value is returned as is.
+ * @param value Stored value or secret reference
+ * @param destination Destination name (used in error messages)
+ * @returns Resolved secret
+ */
+export async function resolveSecretReference(
+  value: string,
+  destination: string,
+): Promise<string> {
+  if (value.startsWith(ENV_PREFIX)) {
+    const name = value.substring(ENV_PREFIX.length);
+    const secret = process.env[name];
+    if (secret === undefined) {
+      throw new Error(
+        `Secret reference "${value}" for destination "${destination}" could not be resolved: environment variable ${name} is not set`,
+      );
+    }
+    return secret;
+  }
+
+  if (value.startsWith(FILE_PREFIX)) {
+    const filePath = value.substring(FILE_PREFIX.length);
+    try {
+      const content = await fs.readFile(filePath, 'utf8');
+      return content.replace(/\r?\n$/, '');
+    } catch (error) {
+      throw new Error(
+        `Secret reference "${value}" for destination "${destination}" could not be resolved: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  return value;
+}